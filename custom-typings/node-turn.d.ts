@@ -0,0 +1,61 @@
+declare module 'node-turn' {
+    import { EventEmitter } from 'events';
+    import * as dgram from 'dgram';
+
+    namespace Turn {
+        interface Options {
+            listeningIps?: string[];
+            relayIps?: string[];
+            externalIps?: string | { [ip: string]: string };
+            listeningPort?: number;
+            minPort?: number;
+            maxPort?: number;
+            authMech?: 'none' | 'short-term' | 'long-term';
+            realm?: string;
+            credentials?: { [username: string]: string };
+            debugLevel?: 'ALL' | 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL' | 'OFF';
+            log?: (message: string) => void;
+        }
+
+        interface Address {
+            address: string;
+            port: number;
+        }
+
+        interface Allocation {
+            user: { username: string };
+            relayedTransportAddress: Address;
+            mappedAddress: Address;
+            lifetime: number;
+            timer: NodeJS.Timeout;
+            sockets: dgram.Socket[];
+        }
+
+        interface Message {
+            transactionID: string;
+            allocation?: Allocation;
+        }
+
+        interface Reply {
+            resolve(): void;
+            reject(code: number, reason: string): void;
+        }
+    }
+
+    class Turn extends EventEmitter {
+        constructor(options?: Turn.Options);
+
+        allocations: { [fiveTuple: string]: Turn.Allocation };
+
+        start(): void;
+        stop(): void;
+
+        addUser(username: string, password: string): void;
+        removeUser(username: string): void;
+
+        on(event: 'allocate', listener: (msg: Turn.Message, reply: Turn.Reply) => void): this;
+        on(event: string, listener: (...args: any[]) => void): this;
+    }
+
+    export = Turn;
+}
@@ -34,7 +34,7 @@ module.exports = function(config: any) {
     config.set({
         frameworks: ['mocha', 'chai'],
         files: [
-            'test/**/*.spec.ts'
+            'test/integration/**/*.spec.ts'
         ],
         preprocessors: {
             'src/**/*.ts': ['esbuild'],
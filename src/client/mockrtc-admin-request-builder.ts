@@ -13,9 +13,14 @@ import * as stream from 'stream';
 import * as BrowserPluggableAdmin from 'mockttp/dist/pluggable-admin-api/pluggable-admin.browser';
 import { AdminQuery } from 'mockttp/dist/client/admin-query';
 
-import { MockRTCEvent, MockRTCEventData } from '../mockrtc';
+import {
+    MockRTCEvent,
+    MockRTCEventData,
+    MockRTCRule,
+    MockRTCRuleDefinition
+} from '../mockrtc';
+import type { MockRTCPeerOptions } from '../mockrtc-peer';
 import { HandlerStepDefinition } from '../handling/handler-step-definitions';
-import { MatcherDefinition } from '../matching/matcher-definitions';
 
 /**
  * This is part of Mockttp's experimental 'pluggable admin' API. This may change
@@ -27,6 +32,7 @@ export class MockRTCAdminRequestBuilder {
 
     buildCreatePeerQuery(
         handlerSteps: Array<HandlerStepDefinition>,
+        options: MockRTCPeerOptions | undefined,
         adminStream: stream.Duplex
     ): AdminQuery<
         { createPeer: { peerId: string } },
@@ -44,7 +50,8 @@ export class MockRTCAdminRequestBuilder {
                 peerData: {
                     steps: handlerSteps.map(step =>
                         BrowserPluggableAdmin.Serialization.serialize(step, adminStream)
-                    )
+                    ),
+                    options
                 }
             },
             transformResponse: ({ createPeer }) => createPeer
@@ -52,8 +59,7 @@ export class MockRTCAdminRequestBuilder {
     }
 
     buildAddRuleQuery(
-        matchers: Array<MatcherDefinition>,
-        handlerSteps: Array<HandlerStepDefinition>,
+        rule: MockRTCRuleDefinition,
         adminStream: stream.Duplex
     ): AdminQuery<void> {
         return {
@@ -63,20 +69,13 @@ export class MockRTCAdminRequestBuilder {
                 }
             `,
             variables: {
-                ruleData: {
-                    matchers: matchers.map(matcher =>
-                        BrowserPluggableAdmin.Serialization.serialize(matcher, adminStream)
-                    ),
-                    steps: handlerSteps.map(step =>
-                        BrowserPluggableAdmin.Serialization.serialize(step, adminStream)
-                    )
-                }
+                ruleData: serializeRule(rule, adminStream)
             }
         };
     }
 
     buildSetRulesQuery(
-        rules: Array<{ matchers: MatcherDefinition[], steps: HandlerStepDefinition[] }>,
+        rules: Array<MockRTCRuleDefinition>,
         adminStream: stream.Duplex
     ): AdminQuery<void> {
         return {
@@ -86,18 +85,52 @@ export class MockRTCAdminRequestBuilder {
                 }
             `,
             variables: {
-                ruleData: rules.map(({ matchers, steps }) => ({
-                    matchers: matchers.map(matcher =>
-                        BrowserPluggableAdmin.Serialization.serialize(matcher, adminStream)
-                    ),
-                    steps: steps.map(step =>
-                        BrowserPluggableAdmin.Serialization.serialize(step, adminStream)
-                    )
-                }))
+                ruleData: rules.map(rule => serializeRule(rule, adminStream))
+            }
+        };
+    }
+
+    buildSetUnmatchedConnectionStepsQuery(
+        steps: Array<HandlerStepDefinition>,
+        adminStream: stream.Duplex
+    ): AdminQuery<void> {
+        return {
+            query: gql`
+                mutation SetUnmatchedConnectionSteps($steps: [Raw!]!) {
+                    setUnmatchedConnectionSteps(steps: $steps)
+                }
+            `,
+            variables: {
+                steps: steps.map(step =>
+                    BrowserPluggableAdmin.Serialization.serialize(step, adminStream)
+                )
             }
         };
     }
 
+    buildGetRulesQuery(): AdminQuery<
+        { getRTCRules: Array<Omit<MockRTCRule, 'isPending'> & { pending: boolean }> },
+        MockRTCRule[]
+    > {
+        return {
+            query: gql`
+                query GetRTCRules {
+                    getRTCRules {
+                        id
+                        priority
+                        explanation
+                        hitCount
+                        pending
+                    }
+                }
+            `,
+            transformResponse: ({ getRTCRules }) => getRTCRules.map(({ pending, ...rule }) => ({
+                ...rule,
+                isPending: () => pending
+            }))
+        };
+    }
+
     buildSubscriptionRequest<E extends MockRTCEvent>(event: E): AdminQuery<MockRTCEventData[E]> | undefined {
         const query = {
             'peer-connected': gql`subscription OnPeerConnected {
@@ -173,6 +206,34 @@ export class MockRTCAdminRequestBuilder {
                     timingEvents
                 }
             }`,
+            'data-channel-message-held': gql`subscription OnDataChannelMessageHeld {
+                dataChannelMessageHeld {
+                    peerId
+                    sessionId
+                    messageId
+                    channelLabel
+                    direction
+                    content
+                    isBinary
+
+                    eventTimestamp
+                    timingEvents
+                }
+            }`,
+            'data-channel-message-transform-failed': gql`subscription OnDataChannelMessageTransformFailed {
+                dataChannelMessageTransformFailed {
+                    peerId
+                    sessionId
+                    channelLabel
+                    direction
+                    content
+                    isBinary
+                    errorMessage
+
+                    eventTimestamp
+                    timingEvents
+                }
+            }`,
             'data-channel-closed': gql`subscription OnDataChannelClose {
                 dataChannelClosed {
                     peerId
@@ -216,6 +277,62 @@ export class MockRTCAdminRequestBuilder {
                     eventTimestamp
                     timingEvents
                 }
+            }`,
+            'media-recording-completed': gql`subscription OnMediaRecordingCompleted {
+                mediaRecordingCompleted {
+                    peerId
+                    sessionId
+                    trackMid
+                    filePath
+                    frameCount
+
+                    eventTimestamp
+                }
+            }`,
+            'media-recording-failed': gql`subscription OnMediaRecordingFailed {
+                mediaRecordingFailed {
+                    peerId
+                    sessionId
+                    trackMid
+                    errorMessage
+
+                    eventTimestamp
+                }
+            }`,
+            'connection-unmatched': gql`subscription OnConnectionUnmatched {
+                connectionUnmatched {
+                    peerId
+                    sessionId
+
+                    metadata
+                    localSessionDescription { type, sdp }
+                    remoteSessionDescription { type, sdp }
+
+                    eventTimestamp
+                }
+            }`,
+            'connection-rejected': gql`subscription OnConnectionRejected {
+                connectionRejected {
+                    peerId
+                    sessionId
+
+                    metadata
+                    errorMessage
+
+                    eventTimestamp
+                }
+            }`,
+            'relay-allocated': gql`subscription OnRelayAllocated {
+                relayAllocated {
+                    username
+                    clientAddress
+                    clientPort
+                    relayAddress
+                    relayPort
+                    lifetime
+
+                    eventTimestamp
+                }
             }`
         }[event];
 
@@ -229,4 +346,23 @@ export class MockRTCAdminRequestBuilder {
             }
         };
     }
-}
\ No newline at end of file
+}
+
+function serializeRule(
+    { id, priority, completionChecker, matchers, steps }: MockRTCRuleDefinition,
+    adminStream: stream.Duplex
+) {
+    return {
+        id,
+        priority,
+        completionChecker: completionChecker
+            ? BrowserPluggableAdmin.Serialization.serialize(completionChecker, adminStream)
+            : undefined,
+        matchers: matchers.map(matcher =>
+            BrowserPluggableAdmin.Serialization.serialize(matcher, adminStream)
+        ),
+        steps: steps.map(step =>
+            BrowserPluggableAdmin.Serialization.serialize(step, adminStream)
+        )
+    };
+}
@@ -11,10 +11,17 @@
 import * as BrowserPluggableAdmin from 'mockttp/dist/pluggable-admin-api/pluggable-admin.browser';
 import type { PluggableAdmin } from 'mockttp';
 
-import { MockRTC, MockRTCEvent, MockRTCOptions, MockRTCRuleDefinition } from "../mockrtc";
+import {
+    MockRTC,
+    MockRTCEvent,
+    MockRTCOptions,
+    MockRTCRule,
+    MockRTCRuleDefinition,
+    MockRTCRuleOptions
+} from "../mockrtc";
 import { MockRTCBase } from '../mockrtc-base';
 
-import type { MockRTCPeer } from '../mockrtc-peer';
+import type { MockRTCPeer, MockRTCPeerOptions } from '../mockrtc-peer';
 import { MockRTCRemotePeer } from './mockrtc-remote-peer';
 import type { MockRTCAdminPlugin } from "../server/mockrtc-admin-plugin";
 import { MockRTCAdminRequestBuilder } from './mockrtc-admin-request-builder';
@@ -43,11 +50,14 @@ export class MockRTCClient extends MockRTCBase implements MockRTC {
         return new MockRTCRemotePeer('matching-peer', this.adminClient);
     }
 
-    async buildPeerFromDefinition(handlerSteps: HandlerStepDefinition[]): Promise<MockRTCPeer> {
+    async buildPeerFromDefinition(
+        handlerSteps: HandlerStepDefinition[],
+        options?: MockRTCPeerOptions
+    ): Promise<MockRTCPeer> {
         const { adminStream } = this.adminClient;
 
         const peerData = await this.adminClient.sendQuery(
-            this.requestBuilder.buildCreatePeerQuery(handlerSteps, adminStream)
+            this.requestBuilder.buildCreatePeerQuery(handlerSteps, options, adminStream)
         );
 
         const { peerId } = peerData;
@@ -57,12 +67,13 @@ export class MockRTCClient extends MockRTCBase implements MockRTC {
 
     async addRuleFromDefinition(
         matchers: MatcherDefinition[],
-        handlerSteps: HandlerStepDefinition[]
+        steps: HandlerStepDefinition[],
+        options: MockRTCRuleOptions = {}
     ) {
         const { adminStream } = this.adminClient;
 
         await this.adminClient.sendQuery(
-            this.requestBuilder.buildAddRuleQuery(matchers, handlerSteps, adminStream)
+            this.requestBuilder.buildAddRuleQuery({ ...options, matchers, steps }, adminStream)
         );
     }
 
@@ -74,10 +85,36 @@ export class MockRTCClient extends MockRTCBase implements MockRTC {
         );
     }
 
+    async getRules(): Promise<MockRTCRule[]> {
+        return this.adminClient.sendQuery(
+            this.requestBuilder.buildGetRulesQuery()
+        );
+    }
+
     async start(): Promise<void> {
+        const { unmatchedConnections } = this.options;
+
+        // Steps can only be serialized once the admin stream is available, so unmatched
+        // connection steps are sent separately, after the session has started:
+        const unmatchedSteps = Array.isArray(unmatchedConnections)
+            ? unmatchedConnections
+            : undefined;
+
         await this.adminClient.start({
-            webrtc: this.options
+            webrtc: {
+                ...this.options,
+                unmatchedConnections: unmatchedSteps ? 'proxy' : unmatchedConnections
+            }
         });
+
+        if (unmatchedSteps) {
+            await this.adminClient.sendQuery(
+                this.requestBuilder.buildSetUnmatchedConnectionStepsQuery(
+                    unmatchedSteps,
+                    this.adminClient.adminStream
+                )
+            );
+        }
     }
 
     async stop(): Promise<void> {
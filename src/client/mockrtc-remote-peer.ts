@@ -6,7 +6,7 @@
 import { gql } from 'graphql-tag';
 import * as PluggableAdmin from 'mockttp/dist/pluggable-admin-api/pluggable-admin.browser';
 
-import { MockRTCSessionDescription } from '../mockrtc';
+import { MockRTCSessionDescription, RTCIceServerOptions } from '../mockrtc';
 import {
     MockRTCPeer,
     MockRTCOfferParams,
@@ -15,9 +15,12 @@ import {
     MockRTCAnswerParams,
     MockRTCSession,
     OfferOptions,
-    AnswerOptions
+    AnswerOptions,
+    NetworkConditions,
+    InjectMessageOptions
 } from "../mockrtc-peer";
 import type { SessionData } from '../server/mockrtc-admin-plugin';
+import { serializeMessage } from '../handling/handler-step-definitions';
 
 export class MockRTCRemotePeer implements MockRTCPeer {
 
@@ -203,6 +206,48 @@ export class MockRTCRemotePeer implements MockRTCPeer {
         });
     }
 
+    getIceServers(): Promise<RTCIceServerOptions[]> {
+        return this.adminClient.sendQuery<
+            { getIceServers: RTCIceServerOptions[] },
+            RTCIceServerOptions[]
+        >({
+            query: gql`
+                query GetPeerIceServers($peerId: ID!) {
+                    getIceServers(peerId: $peerId)
+                }
+            `,
+            variables: { peerId: this.peerId },
+            transformResponse: ({ getIceServers }) => getIceServers
+        });
+    }
+
+    getWhipUrl(): Promise<string> {
+        return this.getSignallingUrl('whip');
+    }
+
+    getWhepUrl(): Promise<string> {
+        return this.getSignallingUrl('whep');
+    }
+
+    getWebSocketSignallingUrl(): Promise<string> {
+        return this.getSignallingUrl('websocket');
+    }
+
+    private getSignallingUrl(protocol: 'whip' | 'whep' | 'websocket'): Promise<string> {
+        return this.adminClient.sendQuery<
+            { getSignallingUrl: string },
+            string
+        >({
+            query: gql`
+                query GetPeerSignallingUrl($peerId: ID!, $protocol: String!) {
+                    getSignallingUrl(peerId: $peerId, protocol: $protocol)
+                }
+            `,
+            variables: { peerId: this.peerId, protocol },
+            transformResponse: ({ getSignallingUrl }) => getSignallingUrl
+        });
+    }
+
 }
 
 class RemoteSessionApi implements MockRTCSession {
@@ -284,4 +329,136 @@ class RemoteSessionApi implements MockRTCSession {
         });
     }
 
-}
\ No newline at end of file
+    addIceCandidate(candidate: RTCIceCandidateInit | null): Promise<void> {
+        return this.adminClient.sendQuery<void>({
+            query: gql`
+                mutation AddPeerRTCIceCandidate($peerId: ID!, $sessionId: ID!, $candidate: Raw) {
+                    addIceCandidate(peerId: $peerId, sessionId: $sessionId, candidate: $candidate)
+                }
+            `,
+            variables: {
+                peerId: this.peerId,
+                sessionId: this.sessionId,
+                // Candidates may be RTCIceCandidate instances, so we serialize them explicitly:
+                candidate: candidate && {
+                    candidate: candidate.candidate,
+                    sdpMid: candidate.sdpMid,
+                    sdpMLineIndex: candidate.sdpMLineIndex,
+                    usernameFragment: candidate.usernameFragment
+                }
+            }
+        });
+    }
+
+    onLocalIceCandidate(callback: (candidate: RTCIceCandidateInit | null) => void): Promise<void> {
+        return this.adminClient.subscribe<
+            { candidate: RTCIceCandidateInit | null },
+            RTCIceCandidateInit | null
+        >({
+            query: gql`
+                subscription OnPeerRTCLocalIceCandidate($peerId: ID!, $sessionId: ID!) {
+                    localIceCandidate(peerId: $peerId, sessionId: $sessionId) {
+                        candidate
+                    }
+                }
+            `,
+            variables: {
+                peerId: this.peerId,
+                sessionId: this.sessionId
+            },
+            transformResponse: ({ candidate }) => candidate
+        }, callback);
+    }
+
+    setNetworkConditions(conditions: NetworkConditions): Promise<void> {
+        return this.adminClient.sendQuery<void>({
+            query: gql`
+                mutation SetPeerRTCNetworkConditions(
+                    $peerId: ID!,
+                    $sessionId: ID!,
+                    $conditions: Raw!
+                ) {
+                    setNetworkConditions(peerId: $peerId, sessionId: $sessionId, conditions: $conditions)
+                }
+            `,
+            variables: {
+                peerId: this.peerId,
+                sessionId: this.sessionId,
+                conditions
+            }
+        });
+    }
+
+    injectMessage({ direction, channel, message }: InjectMessageOptions): Promise<void> {
+        return this.adminClient.sendQuery<void>({
+            query: gql`
+                mutation InjectPeerRTCMessage(
+                    $peerId: ID!,
+                    $sessionId: ID!,
+                    $direction: String!,
+                    $channel: String!,
+                    $message: Raw!
+                ) {
+                    injectMessage(
+                        peerId: $peerId,
+                        sessionId: $sessionId,
+                        direction: $direction,
+                        channel: $channel,
+                        message: $message
+                    )
+                }
+            `,
+            variables: {
+                peerId: this.peerId,
+                sessionId: this.sessionId,
+                direction,
+                channel,
+                message: serializeMessage(message)
+            }
+        });
+    }
+
+    resumeMessage(messageId: string, message?: string | Buffer): Promise<void> {
+        return this.releaseHeldMessage(messageId, 'resume', message);
+    }
+
+    dropMessage(messageId: string): Promise<void> {
+        return this.releaseHeldMessage(messageId, 'drop');
+    }
+
+    private releaseHeldMessage(
+        messageId: string,
+        action: 'resume' | 'drop',
+        message?: string | Buffer
+    ): Promise<void> {
+        return this.adminClient.sendQuery<void>({
+            query: gql`
+                mutation ReleasePeerRTCHeldMessage(
+                    $peerId: ID!,
+                    $sessionId: ID!,
+                    $messageId: ID!,
+                    $action: String!,
+                    $message: Raw
+                ) {
+                    releaseHeldMessage(
+                        peerId: $peerId,
+                        sessionId: $sessionId,
+                        messageId: $messageId,
+                        action: $action,
+                        message: $message
+                    )
+                }
+            `,
+            variables: {
+                peerId: this.peerId,
+                sessionId: this.sessionId,
+                messageId,
+                action,
+                message: message !== undefined
+                    ? serializeMessage(message)
+                    : undefined
+            }
+        });
+    }
+
+}
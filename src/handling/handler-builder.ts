@@ -15,8 +15,41 @@ import {
     CloseStep,
     EchoStep,
     WaitForTrackStep,
-    WaitForMediaStep
+    WaitForMediaStep,
+    ConditionalMessageStep,
+    MessagePattern,
+    buildMessagePatternDefinition,
+    ReplyStep,
+    ReplyMapping,
+    ReplyResponse,
+    CallbackStep,
+    CallbackStepCallback,
+    PlayMediaStep,
+    AddTrackStep,
+    RemoveTrackStep,
+    RenegotiationTarget,
+    PlayMediaOptions,
+    NetworkConditionsStep,
+    MessageTransformStep,
+    MessageTransformRule,
+    MessageTransformCallback,
+    ChannelRouteStep,
+    MessageBreakpointStep,
+    ProxiedMessageFilter
 } from "./handler-step-definitions";
+import type { NetworkConditions } from "../mockrtc-peer";
+
+/**
+ * A set of steps for a branch within a handler, e.g. in
+ * {@link MockRTCHandlerBuilder.ifMessageMatches ifMessageMatches}.
+ *
+ * This can be either an array of step definitions, or a callback, which will be called
+ * with a new handler builder, on which you can call the normal step methods to define the
+ * steps for the branch.
+ */
+export type BranchStepsDefinition =
+    | HandlerStepDefinition[]
+    | ((builder: MockRTCHandlerBuilder<HandlerStepDefinition[]>) => unknown);
 
 /**
  * The builder logic for composing RTC handling behaviour for both mock peers and rules,
@@ -31,6 +64,17 @@ export class MockRTCHandlerBuilder<R> {
         private buildCallback: (handlerSteps: HandlerStepDefinition[]) => Promise<R>
     ) {}
 
+    private static buildBranchSteps(branch: BranchStepsDefinition): HandlerStepDefinition[] {
+        if (Array.isArray(branch)) return branch;
+
+        const builder = new MockRTCHandlerBuilder(async (steps) => steps);
+        branch(builder);
+
+        // Steps are queued synchronously, so they're all available immediately, whether
+        // or not the branch finished with a final .thenX() step:
+        return builder.handlerSteps;
+    }
+
     /**
      * Wait for a given duration, in milliseconds
      *
@@ -136,6 +180,207 @@ export class MockRTCHandlerBuilder<R> {
         return this;
     }
 
+    /**
+     * Play media from a file into one of the connection's media tracks, waiting until
+     * playback is complete before continuing.
+     *
+     * VP8 video (from IVF files) and Opus audio (from Ogg files) are packetized into
+     * RTP using the payload type negotiated for the track, while RTP captured in pcap
+     * files is replayed as-is, with its original timing. The file is read on the
+     * machine running the mock peer, i.e. the admin server when using a remote
+     * MockRTC instance. See {@link PlayMediaOptions} for details.
+     *
+     * If no matching track exists yet, this waits until one is created.
+     *
+     * @category Steps
+     */
+    playMedia(options: PlayMediaOptions): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new PlayMediaStep(options));
+        return this;
+    }
+
+    /**
+     * Add a new media track to the connection, sending & receiving VP8 video or Opus
+     * audio, and renegotiate the connection to include it, just as a real peer would
+     * after calling `addTrack()`.
+     *
+     * Renegotiation requires a way to signal the peer. For hooked connections, MockRTC
+     * signals the hooked connection directly. Otherwise, you must provide the peer's
+     * RTCPeerConnection (which is given the offer directly), or a callback that takes
+     * the offer and returns the peer's answer, which you can use to trigger your own
+     * `negotiationneeded` handling. This step waits until renegotiation is complete.
+     *
+     * @category Steps
+     */
+    addTrack(kind: 'audio' | 'video', renegotiateWith?: RenegotiationTarget): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new AddTrackStep(kind, renegotiateWith));
+        return this;
+    }
+
+    /**
+     * Stop & remove the media track with the given mid from the connection, and
+     * renegotiate the connection without it, just as a real peer would after calling
+     * `removeTrack()`. Renegotiation works as for {@link MockRTCHandlerBuilder.addTrack
+     * addTrack}.
+     *
+     * @category Steps
+     */
+    removeTrack(mid: string, renegotiateWith?: RenegotiationTarget): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new RemoveTrackStep(mid, renegotiateWith));
+        return this;
+    }
+
+    /**
+     * Simulate a poor network for all subsequent traffic sent on this connection, by
+     * adding latency, jitter, packet loss, reordering and/or a bandwidth cap. When
+     * proxying, these conditions apply to traffic in both directions.
+     *
+     * Conditions apply until the connection closes, and can be changed later in the
+     * session by further steps, or from your test code with the session's
+     * `setNetworkConditions()` method. See {@link NetworkConditions} for details.
+     *
+     * @category Steps
+     */
+    withNetworkConditions(conditions: NetworkConditions): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new NetworkConditionsStep(conditions));
+        return this;
+    }
+
+    /**
+     * Transform data channel messages before they're forwarded, when proxying this
+     * connection with a later {@link MockRTCHandlerBuilder.thenPassThrough thenPassThrough}
+     * or {@link MockRTCHandlerBuilder.thenForwardTo thenForwardTo} step.
+     *
+     * This takes either a list of rules, which are applied in order to each message
+     * (see {@link MessageTransformRule}), or a callback, which is called with each
+     * message, plus its direction & channel label, and returns the message to forward,
+     * `null` to drop it, or `undefined` to forward it unmodified. When using a remote
+     * MockRTC instance, callbacks run in the client, so each message makes a round
+     * trip to the client before it's forwarded.
+     *
+     * If the callback throws, the message is dropped, and a
+     * `data-channel-message-transform-failed` event is emitted.
+     *
+     * @category Steps
+     */
+    transformMessages(
+        transform: MessageTransformRule[] | MessageTransformCallback
+    ): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new MessageTransformStep(transform));
+        return this;
+    }
+
+    /**
+     * Hold matching data channel messages when proxying this connection with a later
+     * {@link MockRTCHandlerBuilder.thenPassThrough thenPassThrough} or
+     * {@link MockRTCHandlerBuilder.thenForwardTo thenForwardTo} step, until they're
+     * explicitly released.
+     *
+     * The filter can match messages by direction, channel label and content. If no
+     * filter is given, every proxied message is held. Each held message fires a
+     * `data-channel-message-held` event, and is held until it's released with the
+     * session's `resumeMessage()` (optionally with new content) or `dropMessage()`
+     * methods. While a message is held, later messages on the same channel in the
+     * same direction wait behind it. Any transforms are applied before messages are
+     * held, and messages still held when the connection closes are dropped.
+     *
+     * @category Steps
+     */
+    breakOnMessages(filter: ProxiedMessageFilter = {}): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new MessageBreakpointStep(filter));
+        return this;
+    }
+
+    /**
+     * Choose how data channels with the given label are handled when this connection
+     * is proxied by a later {@link MockRTCHandlerBuilder.thenPassThrough thenPassThrough}
+     * or {@link MockRTCHandlerBuilder.thenForwardTo thenForwardTo} step, allowing you to
+     * proxy some channels while mocking others.
+     *
+     * The route can be:
+     * - `'proxy'` to forward the channel to the remote peer, as for all channels by default.
+     * - `'drop'` to never forward the channel, and ignore all messages received on it.
+     * - A set of steps, either as an array or a callback that defines them on a new
+     *   builder (as in {@link MockRTCHandlerBuilder.ifMessageMatches ifMessageMatches}).
+     *   The channel is not forwarded, and these steps run in the background to handle
+     *   it instead, only seeing channels with this label. The following steps continue
+     *   immediately to handle the rest of the connection.
+     *
+     * Channels that are mocked or dropped are hidden from all later steps that handle
+     * the rest of the connection, so e.g. a later `thenEcho()` never echoes them.
+     *
+     * Steps that act on the connection as a whole (e.g. closing it) still affect the
+     * whole connection when used to handle a single channel, and proxy steps cannot be
+     * used to handle a single channel.
+     *
+     * @category Steps
+     */
+    routeChannel(
+        channelLabel: string,
+        route: 'proxy' | 'drop' | BranchStepsDefinition
+    ): MockRTCHandlerBuilder<R> {
+        if (route === 'proxy' || route === 'drop') {
+            this.handlerSteps.push(new ChannelRouteStep(channelLabel, route));
+        } else {
+            const steps = MockRTCHandlerBuilder.buildBranchSteps(route);
+            if (steps.some(step => step instanceof PeerProxyStep || step instanceof DynamicProxyStep)) {
+                throw new Error("Proxy steps can't be used to handle individual channels");
+            }
+
+            this.handlerSteps.push(new ChannelRouteStep(channelLabel, 'mock', steps));
+        }
+        return this;
+    }
+
+    /**
+     * Run one of two sets of steps, depending on whether the last message received
+     * by a `waitForNextMessage()` or `waitForNextMessageOnChannel()` step matches the
+     * given pattern.
+     *
+     * The pattern can be a regular expression, which is tested against the message
+     * content as a string, or an object, which matches messages containing JSON that
+     * includes all the given properties. If no message has been received, the else
+     * steps are run.
+     *
+     * Each set of steps can be defined as an array of step definitions, or as a
+     * callback that receives a new builder, like so:
+     *
+     * ```
+     * .waitForNextMessage()
+     * .ifMessageMatches({ type: 'ping' },
+     *     (steps) => steps.send('pong'),
+     *     (steps) => steps.thenClose()
+     * )
+     * ```
+     *
+     * Once the chosen steps have completed, handling continues with any following steps.
+     *
+     * @category Steps
+     */
+    ifMessageMatches(
+        pattern: MessagePattern,
+        thenSteps: BranchStepsDefinition,
+        elseSteps: BranchStepsDefinition = []
+    ): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(new ConditionalMessageStep(
+            buildMessagePatternDefinition(pattern),
+            MockRTCHandlerBuilder.buildBranchSteps(thenSteps),
+            MockRTCHandlerBuilder.buildBranchSteps(elseSteps)
+        ));
+        return this;
+    }
+
+    /**
+     * Add a step from an existing step definition. This is useful for custom steps, which
+     * have a corresponding implementation registered with the MockRTC server.
+     *
+     * @category Steps
+     */
+    addStep(step: HandlerStepDefinition): MockRTCHandlerBuilder<R> {
+        this.handlerSteps.push(step);
+        return this;
+    }
+
     /**
      * Immediately close the connection.
      *
@@ -183,6 +428,89 @@ export class MockRTCHandlerBuilder<R> {
         return this.buildCallback(this.handlerSteps);
     }
 
+    /**
+     * Reply to all incoming data channel messages that match the given pattern with
+     * the given response, until the other peer closes the connection. Messages that
+     * don't match the pattern are ignored.
+     *
+     * This is equivalent to {@link thenReply `.thenReply()`} with a single mapping.
+     *
+     * This defines a final step, and will then create a mock peer from the full
+     * set of steps you've defined, and return it wrapped in a promise. As soon
+     * as the promise resolves the peer is ready to use.
+     *
+     * @category Final Steps
+     */
+    thenReplyTo(pattern: MessagePattern, response: ReplyResponse): Promise<R> {
+        return this.thenReply([{ pattern, response }]);
+    }
+
+    /**
+     * Reply to incoming data channel messages, until the other peer closes the
+     * connection. For each message, the response for the first mapping whose
+     * pattern matches the message is sent back on the same channel. Messages that
+     * match no mappings are ignored.
+     *
+     * Patterns can be regular expressions, or objects to match JSON messages including
+     * those properties. Responses can be static strings or buffers, `{ template }`
+     * strings referencing the received message, or `{ jsonPatch }` operations to
+     * apply to the received JSON message. See {@link ReplyResponse} for details.
+     * If a response can't be built (e.g. when patching a message that isn't valid
+     * JSON) the step fails, and the connection is closed.
+     *
+     * This can take one or two arguments. If only one is provided, it is used as
+     * the list of mappings, and applies to messages on all data channels. If two
+     * arguments are provided, the first must be the data channel label, and only
+     * messages on channels with that label will receive replies.
+     *
+     * This defines a final step, and will then create a mock peer from the full
+     * set of steps you've defined, and return it wrapped in a promise. As soon
+     * as the promise resolves the peer is ready to use.
+     *
+     * @category Final Steps
+     */
+    thenReply(mappings: ReplyMapping[]): Promise<R>;
+    thenReply(channel: string | undefined, mappings: ReplyMapping[]): Promise<R>;
+    thenReply(...args: [string | undefined, ReplyMapping[]] | [ReplyMapping[]]): Promise<R> {
+        const [channel, mappings] = args.length === 2
+            ? args
+            : [undefined, args[0]];
+
+        this.handlerSteps.push(new ReplyStep(
+            mappings.map(({ pattern, response }) => ({
+                pattern: buildMessagePatternDefinition(pattern),
+                response
+            })),
+            channel
+        ));
+        return this.buildCallback(this.handlerSteps);
+    }
+
+    /**
+     * Call the given callback for every incoming data channel message, until the other
+     * peer closes the connection, and send any messages it returns back in response on
+     * the same channel.
+     *
+     * The callback is called with the received message, details of the channel it was
+     * received on, and details of the session (its id and connection metadata). It can
+     * return a string or buffer, an array of messages, or nothing, and it can be async.
+     * Responses are always sent in the same order as the messages they respond to.
+     *
+     * The callback always runs in the process that defined it, so when using a remote
+     * MockRTC instance (e.g. from a browser via `getRemote()`) each message is sent to
+     * the client and the callback result is sent back to the admin server.
+     *
+     * This defines a final step, and will then create a mock peer from the full
+     * set of steps you've defined, and return it wrapped in a promise. As soon
+     * as the promise resolves the peer is ready to use.
+     *
+     * @category Final Steps
+     */
+    thenCallback(callback: CallbackStepCallback): Promise<R> {
+        this.handlerSteps.push(new CallbackStep(callback));
+        return this.buildCallback(this.handlerSteps);
+    }
+
     /**
      * Creates a new external connection to the given remote peer connection,
      * matching the existing mocked connection, and then proxies all traffic
@@ -224,4 +552,19 @@ export class MockRTCHandlerBuilder<R> {
         return this.buildCallback(this.handlerSteps);
     }
 
+    /**
+     * Run a final step from an existing step definition. This is useful for custom steps,
+     * which have a corresponding implementation registered with the MockRTC server.
+     *
+     * This defines a final step, and will then create a mock peer from the full
+     * set of steps you've defined, and return it wrapped in a promise. As soon
+     * as the promise resolves the peer is ready to use.
+     *
+     * @category Final Steps
+     */
+    thenStep(step: HandlerStepDefinition): Promise<R> {
+        this.handlerSteps.push(step);
+        return this.buildCallback(this.handlerSteps);
+    }
+
 }
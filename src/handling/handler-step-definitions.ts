@@ -6,6 +6,7 @@
 import * as PluggableAdmin from 'mockttp/dist/pluggable-admin-api/pluggable-admin.browser';
 
 import { MockRTCSessionDescription } from '../mockrtc';
+import type { ConnectionMetadata, NetworkConditions } from '../mockrtc-peer';
 import type { RTCConnection } from '../webrtc/rtc-connection';
 
 export type Serializable = PluggableAdmin.Serialization.Serializable;
@@ -13,7 +14,41 @@ export const { Serializable } = PluggableAdmin.Serialization;
 type ClientServerChannel = PluggableAdmin.Serialization.ClientServerChannel;
 
 export interface HandlerStepDefinition extends Serializable {
-    readonly type: keyof typeof StepDefinitionLookup;
+    /**
+     * The type of the step. Built-in steps use the types in {@link StepDefinitionLookup}, while
+     * custom steps can use any other type, as long as a corresponding implementation has been
+     * registered with the MockRTC server.
+     */
+    readonly type: string;
+    explain(): string;
+}
+
+/**
+ * A pattern to match against data channel messages. This can be either a regular
+ * expression, tested against the message content as a string, or an object, which
+ * matches any message containing JSON that includes all the given properties.
+ */
+export type MessagePattern = RegExp | { [key: string]: unknown };
+
+/**
+ * The serializable equivalent of a {@link MessagePattern}, as used within step definitions.
+ */
+export type MessagePatternDefinition =
+    | { type: 'regex', regexSource: string, regexFlags: string }
+    | { type: 'json', jsonSubset: { [key: string]: unknown } };
+
+export function buildMessagePatternDefinition(pattern: MessagePattern): MessagePatternDefinition {
+    if (pattern instanceof RegExp) {
+        return { type: 'regex', regexSource: pattern.source, regexFlags: pattern.flags };
+    } else {
+        return { type: 'json', jsonSubset: pattern };
+    }
+}
+
+export function explainMessagePattern(pattern: MessagePatternDefinition) {
+    return pattern.type === 'regex'
+        ? `matches /${pattern.regexSource}/${pattern.regexFlags}`
+        : `includes JSON ${JSON.stringify(pattern.jsonSubset)}`;
 }
 
 export class WaitForDurationStep extends Serializable implements HandlerStepDefinition {
@@ -124,6 +159,250 @@ export class SendStep extends Serializable implements HandlerStepDefinition {
 
 }
 
+/**
+ * Nested steps & matchers share their parent's channel, so each is given a scoped view of that
+ * channel, which prefixes its requests with a distinct action. This ensures that requests from
+ * multiple nested callbacks don't collide, as each would otherwise receive every request.
+ *
+ * @internal
+ */
+export function scopeChannel(channel: ClientServerChannel, scope: string): ClientServerChannel {
+    const scopeAction = (action?: string) => action === undefined ? scope : `${scope}:${action}`;
+
+    return Object.create(channel, {
+        request: {
+            value: (actionOrData: string | {}, data?: {}) => typeof actionOrData === 'string'
+                ? channel.request(scopeAction(actionOrData), data!)
+                : channel.request(scopeAction(), actionOrData)
+        },
+        onRequest: {
+            value: (actionOrCallback: string | ((request: unknown) => unknown), callback?: (request: unknown) => unknown) =>
+                typeof actionOrCallback === 'string'
+                    ? channel.onRequest(scopeAction(actionOrCallback), callback!)
+                    : channel.onRequest(scopeAction(), actionOrCallback)
+        }
+    });
+}
+
+export class ConditionalMessageStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'if-rtc-message-matches';
+    static readonly isFinal = false;
+
+    constructor(
+        public readonly pattern: MessagePatternDefinition,
+        public readonly thenSteps: HandlerStepDefinition[],
+        public readonly elseSteps: HandlerStepDefinition[] = []
+    ) {
+        super();
+    }
+
+    explain() {
+        const explainSteps = (steps: HandlerStepDefinition[]) =>
+            steps.length ? steps.map(s => s.explain()).join(', ') : 'do nothing';
+
+        return `if the last received RTC message ${explainMessagePattern(this.pattern)} then ${
+            explainSteps(this.thenSteps)
+        }, otherwise ${
+            explainSteps(this.elseSteps)
+        }`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        // Nested steps are serialized into this step's data, each with a scoped view of this step's channel:
+        return {
+            type: this.type,
+            pattern: this.pattern,
+            thenSteps: this.thenSteps.map((step, i) => step.serialize(scopeChannel(channel, `then:${i}`))),
+            elseSteps: this.elseSteps.map((step, i) => step.serialize(scopeChannel(channel, `else:${i}`)))
+        };
+    }
+
+}
+
+/**
+ * Options for a media playback step, defining which file to play and which track to
+ * play it into.
+ */
+export interface PlayMediaOptions {
+    /**
+     * The path to a media file to play, on the machine running the MockRTC peers (i.e.
+     * the admin server, when using a remote MockRTC instance). The format is detected
+     * from the file extension. This can be:
+     *
+     * - An IVF file (`.ivf`) containing VP8 video, which will be packetized into RTP.
+     * - An Ogg file (`.ogg` or `.opus`) containing Opus audio, which will be packetized
+     *   into RTP.
+     * - A pcap capture (`.pcap`) of unencrypted RTP over UDP, whose packets for the first
+     *   RTP stream found will be replayed as-is, with their original timing. The payload
+     *   types in the capture should match the payload types negotiated for the track.
+     */
+    source: string;
+
+    /**
+     * The mid of the media track to play the media into.
+     */
+    mid?: string;
+
+    /**
+     * The kind of media track to play the media into. If no mid is specified, the media
+     * is played into the first track of this kind. This defaults to video for IVF files
+     * and audio for Ogg files. For pcap files with no mid or kind, the first media track
+     * is used.
+     */
+    kind?: 'audio' | 'video';
+}
+
+export class PlayMediaStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'play-rtc-media';
+    static readonly isFinal = false;
+
+    readonly source: string;
+    readonly mid: string | undefined;
+    readonly kind: 'audio' | 'video' | undefined;
+
+    constructor(options: PlayMediaOptions) {
+        super();
+        this.source = options.source;
+        this.mid = options.mid;
+        this.kind = options.kind;
+    }
+
+    explain() {
+        return `play media from ${this.source}${
+            this.mid !== undefined
+                ? ` on track ${this.mid}`
+            : this.kind
+                ? ` on the first ${this.kind} track`
+            : ''
+        }`;
+    }
+
+}
+
+/**
+ * A peer to signal renegotiation offers to: either an RTCPeerConnection, which is given the
+ * offer directly, or a callback which takes the offer and returns the peer's answer.
+ */
+export type RenegotiationTarget = RTCPeerConnection | AnswerCallback;
+
+type AnswerCallback = (offer: MockRTCSessionDescription) => Promise<RTCSessionDescriptionInit>;
+
+function buildAnswerCallback(target: RenegotiationTarget): AnswerCallback {
+    if (target instanceof Function) return target;
+
+    return async (offer: MockRTCSessionDescription) => {
+        await target.setRemoteDescription(offer);
+        const answer = await target.createAnswer();
+        await target.setLocalDescription(answer);
+        return answer;
+    };
+}
+
+// Renegotiating steps signal via the client when given a target there, or otherwise via the
+// connection's own signalling (e.g. the control channel of hooked connections), if it has any.
+function serializeRenegotiation(
+    getAnswer: AnswerCallback | undefined,
+    channel: ClientServerChannel
+) {
+    if (!getAnswer) return false;
+
+    channel.onRequest<
+        { offer: MockRTCSessionDescription },
+        { answer: RTCSessionDescriptionInit }
+    >(async (msg) => {
+        return { answer: await getAnswer(msg.offer) };
+    });
+    return true;
+}
+
+export class AddTrackStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'add-rtc-track';
+    static readonly isFinal = false;
+
+    protected getAnswer: AnswerCallback | undefined;
+
+    constructor(
+        public readonly kind: 'audio' | 'video',
+        renegotiateWith?: RenegotiationTarget
+    ) {
+        super();
+        this.getAnswer = renegotiateWith && buildAnswerCallback(renegotiateWith);
+    }
+
+    explain() {
+        return `add a ${this.kind} track & renegotiate`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        return {
+            type: this.type,
+            kind: this.kind,
+            renegotiateViaClient: serializeRenegotiation(this.getAnswer, channel)
+        };
+    }
+
+}
+
+export class RemoveTrackStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'remove-rtc-track';
+    static readonly isFinal = false;
+
+    protected getAnswer: AnswerCallback | undefined;
+
+    constructor(
+        public readonly mid: string,
+        renegotiateWith?: RenegotiationTarget
+    ) {
+        super();
+        this.getAnswer = renegotiateWith && buildAnswerCallback(renegotiateWith);
+    }
+
+    explain() {
+        return `remove track ${this.mid} & renegotiate`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        return {
+            type: this.type,
+            mid: this.mid,
+            renegotiateViaClient: serializeRenegotiation(this.getAnswer, channel)
+        };
+    }
+
+}
+
+export class NetworkConditionsStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'set-rtc-network-conditions';
+    static readonly isFinal = false;
+
+    constructor(
+        public readonly conditions: NetworkConditions
+    ) {
+        super();
+    }
+
+    explain() {
+        const { latencyMs, jitterMs, lossRate, reorderRate, kbps } = this.conditions;
+        const conditionDescriptions = [
+            latencyMs && `${latencyMs}ms latency`,
+            jitterMs && `${jitterMs}ms jitter`,
+            lossRate && `${lossRate * 100}% loss`,
+            reorderRate && `${reorderRate * 100}% reordering`,
+            kbps && `${kbps}kbps bandwidth`
+        ].filter(Boolean);
+
+        return conditionDescriptions.length
+            ? `simulate network conditions with ${conditionDescriptions.join(', ')}`
+            : 'remove all simulated network conditions';
+    }
+
+}
+
 export class CloseStep extends Serializable implements HandlerStepDefinition {
 
     readonly type = 'close-rtc-connection';
@@ -146,33 +425,393 @@ export class EchoStep extends Serializable implements HandlerStepDefinition {
 
 }
 
-export class PeerProxyStep extends Serializable implements HandlerStepDefinition {
+/**
+ * A single JSON Patch (RFC 6902) operation, applied to a JSON message.
+ */
+export type JsonPatchOperation =
+    | { op: 'add' | 'replace', path: string, value: unknown }
+    | { op: 'remove', path: string }
+    | { op: 'copy' | 'move', from: string, path: string };
+
+/**
+ * A response to send when replying to a received data channel message. This can be:
+ *
+ * - A string or buffer, sent as-is.
+ * - A `{ template }` object, containing a string in which `{{message}}` is replaced with
+ *   the received message content, and `{{json.some.path}}` is replaced with the value at
+ *   that path within the received message parsed as JSON.
+ * - A `{ jsonPatch }` object, containing a list of JSON Patch operations, which are applied
+ *   to the received message parsed as JSON, with the result sent as the response.
+ */
+export type ReplyResponse =
+    | string
+    | Buffer
+    | { template: string }
+    | { jsonPatch: JsonPatchOperation[] };
+
+/**
+ * A pattern to match against received messages, and the response to send for messages
+ * that match it.
+ */
+export interface ReplyMapping {
+    pattern: MessagePattern;
+    response: ReplyResponse;
+}
 
-    readonly type = 'rtc-peer-proxy';
+export class ReplyStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'reply-rtc';
     static readonly isFinal = true;
 
-    protected externalConnections: RTCConnection[] = []; // Set here so it can be used in impl subclass
+    constructor(
+        public readonly mappings: Array<{ pattern: MessagePatternDefinition, response: ReplyResponse }>,
+        public readonly channelLabel?: string
+    ) {
+        super();
+    }
 
-    protected getAnswer: (offer: MockRTCSessionDescription) => Promise<RTCSessionDescriptionInit>;
+    explain() {
+        return `reply to RTC messages${
+            this.channelLabel ? ` on channel '${this.channelLabel}'` : ''
+        } ${
+            this.mappings.map(({ pattern, response }) =>
+                `that ${explainMessagePattern(pattern)} with ${
+                    typeof response === 'string'
+                        ? `'${response}'`
+                    : Buffer.isBuffer(response)
+                        ? 'a buffer'
+                    : 'template' in response
+                        ? `template '${response.template}'`
+                    : 'a JSON patch of the message'
+                }`
+            ).join(', ')
+        }`;
+    }
+
+}
+
+/**
+ * Details of the data channel on which a message was received, as passed to
+ * {@link CallbackStep} callbacks.
+ */
+export interface CallbackChannelInfo {
+    id: number;
+    label: string;
+    protocol: string;
+}
+
+/**
+ * Details of the session in which a message was received, as passed to
+ * {@link CallbackStep} callbacks.
+ */
+export interface CallbackSessionInfo {
+    sessionId: string;
+    metadata: ConnectionMetadata;
+}
+
+/**
+ * The result of a {@link CallbackStep} callback: a message or list of messages to send
+ * in response on the same channel, or nothing, to send no response.
+ */
+export type CallbackStepResult = string | Buffer | Array<string | Buffer> | void;
+
+export type CallbackStepCallback = (
+    message: string | Buffer,
+    channel: CallbackChannelInfo,
+    session: CallbackSessionInfo
+) => CallbackStepResult | Promise<CallbackStepResult>;
+
+/**
+ * @internal
+ */
+export type SerializedMessage = string | { type: 'buffer', value: string };
+
+/**
+ * @internal
+ */
+export function serializeMessage(message: string | Buffer): SerializedMessage {
+    return Buffer.isBuffer(message)
+        ? { type: 'buffer', value: message.toString('base64') }
+        : message;
+}
+
+/**
+ * @internal
+ */
+export function deserializeMessage(message: SerializedMessage): string | Buffer {
+    return typeof message === 'string'
+        ? message
+        : Buffer.from(message.value, 'base64');
+}
+
+export class CallbackStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'rtc-callback';
+    static readonly isFinal = true;
 
     constructor(
-        connectionTarget:
-            | RTCPeerConnection
-            | ((offer: MockRTCSessionDescription) => Promise<RTCSessionDescriptionInit>)
+        public readonly callback: CallbackStepCallback
     ) {
         super();
-        if (connectionTarget instanceof Function) {
-            this.getAnswer = connectionTarget;
+    }
+
+    explain() {
+        return `respond to RTC messages using the provided callback${
+            this.callback.name ? ` (${this.callback.name})` : ''
+        }`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        channel.onRequest<
+            { message: SerializedMessage, channel: CallbackChannelInfo, session: CallbackSessionInfo },
+            { response: SerializedMessage[] }
+        >(async (msg) => {
+            const result = await this.callback(
+                deserializeMessage(msg.message),
+                msg.channel,
+                msg.session
+            );
+
+            const responses = result === undefined
+                ? []
+                : Array.isArray(result)
+                    ? result
+                    : [result];
+
+            return { response: responses.map(serializeMessage) };
+        });
+
+        return { type: this.type, name: this.callback.name };
+    }
+
+}
+
+/**
+ * The direction of a proxied message: 'to-remote' for messages sent by the mocked
+ * (local) peer to the remote peer, or 'to-local' for messages sent by the remote peer
+ * back to the mocked peer.
+ */
+export type MessageDirection = 'to-remote' | 'to-local';
+
+/**
+ * Conditions that select proxied messages, e.g. for a {@link MessageTransformRule} or a
+ * message breakpoint. All conditions are optional, and every message matches by default.
+ */
+export interface ProxiedMessageFilter {
+    direction?: MessageDirection;
+    channelLabel?: string;
+    matching?: MessagePattern;
+}
+
+/**
+ * The serializable equivalent of a {@link ProxiedMessageFilter}, as used within step definitions.
+ */
+export interface ProxiedMessageFilterDefinition {
+    direction?: MessageDirection;
+    channelLabel?: string;
+    matching?: MessagePatternDefinition;
+}
+
+function buildMessageFilterDefinition(filter: ProxiedMessageFilter): ProxiedMessageFilterDefinition {
+    return {
+        direction: filter.direction,
+        channelLabel: filter.channelLabel,
+        matching: filter.matching && buildMessagePatternDefinition(filter.matching)
+    };
+}
+
+export function explainMessageFilter(filter: ProxiedMessageFilterDefinition) {
+    const conditions = [
+        filter.direction && `sent ${filter.direction}`,
+        filter.channelLabel !== undefined && `on channel '${filter.channelLabel}'`,
+        filter.matching && `that ${explainMessagePattern(filter.matching)}`
+    ].filter(Boolean);
+
+    return conditions.length ? conditions.join(' ') : '';
+}
+
+/**
+ * A rule to modify or drop proxied data channel messages:
+ *
+ * - `replace` replaces matches of a pattern in text messages. String patterns
+ *   replace every occurrence, while regexes use their own flags, and the replacement
+ *   can reference capture groups as in `String.replace`.
+ * - `set-json` sets the value at a dot-separated path (e.g. `user.name`) within JSON
+ *   messages, creating any missing objects along the way.
+ * - `delete-json` deletes the value at a dot-separated path within JSON messages.
+ * - `drop` drops the message entirely.
+ *
+ * Text transformations are skipped for binary messages, and JSON transformations
+ * are skipped for messages that aren't valid JSON.
+ */
+export type MessageTransformRule = ProxiedMessageFilter & (
+    | { type: 'replace', pattern: string | RegExp, replacement: string }
+    | { type: 'set-json', path: string, value: unknown }
+    | { type: 'delete-json', path: string }
+    | { type: 'drop' }
+);
+
+/**
+ * The serializable equivalent of a {@link MessageTransformRule}, as used within step definitions.
+ */
+export type MessageTransformRuleDefinition = ProxiedMessageFilterDefinition & (
+    | { type: 'replace', pattern: string | { regexSource: string, regexFlags: string }, replacement: string }
+    | { type: 'set-json', path: string, value: unknown }
+    | { type: 'delete-json', path: string }
+    | { type: 'drop' }
+);
+
+function buildTransformRuleDefinition(rule: MessageTransformRule): MessageTransformRuleDefinition {
+    const definition = { ...rule, ...buildMessageFilterDefinition(rule) } as MessageTransformRuleDefinition;
+
+    if (rule.type === 'replace' && rule.pattern instanceof RegExp) {
+        return {
+            ...definition,
+            pattern: { regexSource: rule.pattern.source, regexFlags: rule.pattern.flags }
+        } as MessageTransformRuleDefinition;
+    } else {
+        return definition;
+    }
+}
+
+/**
+ * Details of a proxied message, as passed to {@link MessageTransformCallback} callbacks.
+ */
+export interface ProxiedMessageInfo {
+    direction: MessageDirection;
+    channelLabel: string;
+}
+
+/**
+ * A callback to transform proxied messages. This should return the content to forward,
+ * `null` to drop the message, or `undefined` to forward it unmodified.
+ */
+export type MessageTransformCallback = (
+    message: string | Buffer,
+    info: ProxiedMessageInfo
+) => string | Buffer | null | void | Promise<string | Buffer | null | void>;
+
+export class MessageTransformStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'rtc-message-transform';
+    static readonly isFinal = false;
+
+    readonly rules: MessageTransformRuleDefinition[] | undefined;
+    readonly callback: MessageTransformCallback | undefined;
+
+    constructor(
+        transform: MessageTransformRule[] | MessageTransformCallback
+    ) {
+        super();
+        if (Array.isArray(transform)) {
+            this.rules = transform.map(buildTransformRuleDefinition);
         } else {
-            this.getAnswer = async (offer: MockRTCSessionDescription) => {
-                await connectionTarget.setRemoteDescription(offer);
-                const answer = await connectionTarget.createAnswer();
-                await connectionTarget.setLocalDescription(answer);
-                return answer;
-            };
+            this.callback = transform;
         }
     }
 
+    explain() {
+        return this.rules
+            ? `transform proxied messages using ${this.rules.length} rule${this.rules.length === 1 ? '' : 's'}`
+            : `transform proxied messages using the provided callback${
+                this.callback!.name ? ` (${this.callback!.name})` : ''
+            }`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        if (this.rules) return { type: this.type, rules: this.rules };
+
+        channel.onRequest<
+            { message: SerializedMessage, info: ProxiedMessageInfo },
+            { result: SerializedMessage | null | undefined }
+        >(async (msg) => {
+            const result = await this.callback!(deserializeMessage(msg.message), msg.info);
+
+            if (result === null) return { result: null }; // Drop the message
+            else if (result === undefined) return { result: undefined }; // Forward it unmodified
+            else return { result: serializeMessage(result as string | Buffer) };
+        });
+
+        return { type: this.type, name: this.callback!.name };
+    }
+
+}
+
+export class MessageBreakpointStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'rtc-message-breakpoint';
+    static readonly isFinal = false;
+
+    readonly filter: ProxiedMessageFilterDefinition;
+
+    constructor(filter: ProxiedMessageFilter = {}) {
+        super();
+        this.filter = buildMessageFilterDefinition(filter);
+    }
+
+    explain() {
+        const filterDescription = explainMessageFilter(this.filter);
+        return `hold proxied messages${filterDescription ? ` ${filterDescription}` : ''} until released`;
+    }
+
+}
+
+/**
+ * How data channels with a given label should be handled when the connection is proxied:
+ * 'proxy' to forward them to the remote peer (the default), 'drop' to ignore them, or
+ * 'mock' to handle them with a separate set of steps.
+ */
+export type ChannelRoute = 'proxy' | 'drop' | 'mock';
+
+export class ChannelRouteStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'route-rtc-data-channel';
+    static readonly isFinal = false;
+
+    constructor(
+        public readonly channelLabel: string,
+        public readonly route: ChannelRoute,
+        public readonly steps: HandlerStepDefinition[] = []
+    ) {
+        super();
+    }
+
+    explain() {
+        if (this.route === 'mock') {
+            return `handle RTC data channels labelled '${this.channelLabel}' separately, to ${
+                this.steps.length ? this.steps.map(s => s.explain()).join(', ') : 'do nothing'
+            }`;
+        } else {
+            return `${this.route} RTC data channels labelled '${this.channelLabel}'`;
+        }
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        // Nested steps are serialized into this step's data, each with a scoped view of this step's channel:
+        return {
+            type: this.type,
+            channelLabel: this.channelLabel,
+            route: this.route,
+            steps: this.steps.map((step, i) => step.serialize(scopeChannel(channel, `${i}`)))
+        };
+    }
+
+}
+
+export class PeerProxyStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'rtc-peer-proxy';
+    static readonly isFinal = true;
+
+    protected externalConnections: RTCConnection[] = []; // Set here so it can be used in impl subclass
+
+    protected getAnswer: (offer: MockRTCSessionDescription) => Promise<RTCSessionDescriptionInit>;
+
+    constructor(connectionTarget: RenegotiationTarget) {
+        super();
+        this.getAnswer = buildAnswerCallback(connectionTarget);
+    }
+
     explain() {
         return `proxy the RTC connection to the configured peer`;
     }
@@ -211,8 +850,18 @@ export const StepDefinitionLookup = {
     'wait-for-rtc-message': WaitForMessageStep,
     'create-rtc-data-channel': CreateChannelStep,
     'send-rtc-data-message': SendStep,
+    'if-rtc-message-matches': ConditionalMessageStep,
+    'play-rtc-media': PlayMediaStep,
+    'add-rtc-track': AddTrackStep,
+    'remove-rtc-track': RemoveTrackStep,
+    'set-rtc-network-conditions': NetworkConditionsStep,
+    'rtc-message-transform': MessageTransformStep,
+    'rtc-message-breakpoint': MessageBreakpointStep,
+    'route-rtc-data-channel': ChannelRouteStep,
     'close-rtc-connection': CloseStep,
     'echo-rtc': EchoStep,
+    'reply-rtc': ReplyStep,
+    'rtc-callback': CallbackStep,
     'rtc-peer-proxy': PeerProxyStep,
     'rtc-dynamic-proxy': DynamicProxyStep
 };
\ No newline at end of file
@@ -10,6 +10,11 @@ import type { DataChannelStream } from '../webrtc/datachannel-stream';
 import type { MediaTrackStream } from '../webrtc/mediatrack-stream';
 import type { MockRTCConnection } from '../webrtc/mockrtc-connection';
 import { RTCConnection } from '../webrtc/rtc-connection';
+import {
+    getMediaSourceFormat,
+    getMediaSourceKind,
+    playMediaFile
+} from '../webrtc/media-playback';
 import {
     StepDefinitionLookup,
     CloseStep,
@@ -19,6 +24,30 @@ import {
     PeerProxyStep,
     CreateChannelStep,
     SendStep,
+    ConditionalMessageStep,
+    MessagePatternDefinition,
+    PlayMediaStep,
+    AddTrackStep,
+    RemoveTrackStep,
+    NetworkConditionsStep,
+    MessageTransformStep,
+    MessageTransformRuleDefinition,
+    ProxiedMessageInfo,
+    ProxiedMessageFilterDefinition,
+    MessageBreakpointStep,
+    ChannelRouteStep,
+    ChannelRoute,
+    ReplyStep,
+    ReplyResponse,
+    JsonPatchOperation,
+    CallbackStep,
+    CallbackStepResult,
+    CallbackChannelInfo,
+    CallbackSessionInfo,
+    SerializedMessage,
+    serializeMessage,
+    deserializeMessage,
+    scopeChannel,
     WaitForChannelStep,
     WaitForDurationStep,
     WaitForMediaStep,
@@ -27,9 +56,116 @@ import {
 } from './handler-step-definitions';
 
 type ClientServerChannel = PluggableAdmin.Serialization.ClientServerChannel;
+type SerializedValue<T> = PluggableAdmin.Serialization.SerializedValue<T>;
 
 export interface HandlerStepImpl extends HandlerStepDefinition {
     handle(connection: MockRTCConnection): Promise<void>;
+
+    /**
+     * Builds the implementations of any steps nested within this step. This is called when the
+     * step itself is built, with the same step lookup, so custom steps can be nested.
+     */
+    buildNestedSteps?(stepLookup: StepImplLookup): void;
+}
+
+/**
+ * A step implementation class. Custom steps can be registered with a MockRTC server
+ * using classes like this, extending their corresponding step definition.
+ */
+export interface HandlerStepImplClass {
+    new (...args: any[]): HandlerStepImpl;
+    deserialize(data: SerializedValue<any>, channel: ClientServerChannel, options: unknown): any;
+}
+
+export type StepImplLookup = { [type: string]: HandlerStepImplClass };
+
+/**
+ * Takes a step definition, and returns the equivalent step implementation, ready to handle
+ * connections. Definitions are plain data (or have been deserialized as such), so this just
+ * needs to attach the corresponding implementation prototype, and build any nested steps.
+ */
+export function buildStepImpl(
+    definition: HandlerStepDefinition,
+    stepLookup: StepImplLookup = StepLookup
+): HandlerStepImpl {
+    const stepClass = stepLookup[definition.type];
+    if (!stepClass) throw new Error(`Unrecognized RTC handler step type: ${definition.type}`);
+
+    const step: HandlerStepImpl = Object.assign(
+        Object.create(stepClass.prototype),
+        definition
+    );
+    step.buildNestedSteps?.(stepLookup);
+    return step;
+}
+
+/**
+ * Runs a list of steps in order, stopping after any final step, or once the connection has been
+ * closed. Resolves to true if handling of the connection is complete, in which case no further
+ * steps should be run.
+ */
+export async function runSteps(steps: HandlerStepImpl[], connection: MockRTCConnection): Promise<boolean> {
+    for (const step of steps) {
+        await step.handle(connection);
+
+        const { isFinal } = step.constructor as { isFinal?: boolean };
+        if (isFinal || connection.isClosed) return true;
+    }
+    return false;
+}
+
+// Deserializes steps nested within another step, using a scoped view of the parent step's channel. This
+// uses the step lookup of the parent deserialization, if any, so custom steps can be nested.
+function deserializeStep(
+    data: SerializedValue<HandlerStepDefinition>,
+    channel: ClientServerChannel,
+    options: unknown
+): HandlerStepDefinition {
+    const stepLookup = (options as StepDeserializationOptions | undefined)?.stepLookup ?? StepLookup;
+
+    const stepClass = stepLookup[data.type];
+    if (!stepClass) throw new Error(`Unrecognized RTC handler step type: ${data.type}`);
+
+    return stepClass.deserialize(data, channel, options);
+}
+
+export interface StepDeserializationOptions {
+    stepLookup?: StepImplLookup;
+}
+
+/**
+ * Checks whether a value includes all the properties of the given subset, recursively. Arrays
+ * must match exactly in length, with each element matching recursively.
+ */
+export function matchesJsonSubset(value: unknown, subset: unknown): boolean {
+    if (Array.isArray(subset)) {
+        return Array.isArray(value) &&
+            value.length === subset.length &&
+            subset.every((subsetElement, i) => matchesJsonSubset(value[i], subsetElement));
+    } else if (subset !== null && typeof subset === 'object') {
+        return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+            Object.entries(subset).every(([key, subsetValue]) =>
+                matchesJsonSubset((value as { [key: string]: unknown })[key], subsetValue)
+            );
+    } else {
+        return value === subset;
+    }
+}
+
+export function matchesMessagePattern(pattern: MessagePatternDefinition, message: string | Buffer) {
+    const messageString = Buffer.isBuffer(message)
+        ? message.toString('utf8')
+        : message;
+
+    if (pattern.type === 'regex') {
+        return new RegExp(pattern.regexSource, pattern.regexFlags).test(messageString);
+    } else {
+        try {
+            return matchesJsonSubset(JSON.parse(messageString), pattern.jsonSubset);
+        } catch (e) {
+            return false; // Non-JSON messages never match a JSON pattern
+        }
+    }
 }
 
 export class WaitForDurationStepImpl extends WaitForDurationStep {
@@ -70,19 +206,28 @@ export class WaitForMessageStepImpl extends WaitForMessageStep {
 
     async handle(connection: MockRTCConnection): Promise<void> {
         return new Promise<void>((resolve) => {
-            const messageReceived = () => {
+            const messageListeners = new Map<DataChannelStream, (message: string | Buffer) => void>();
+
+            const messageReceived = (channel: DataChannelStream, message: string | Buffer) => {
                 connection.removeListener('channel-created', listenForMessage);
-                connection.channels.forEach((channel) => {
-                    channel.removeListener('data', messageReceived);
-                    channel.pause();
+                messageListeners.forEach((listener, listeningChannel) => {
+                    listeningChannel.removeListener('data', listener);
                 });
+                connection.channels.forEach((channel) => channel.pause());
+
+                // Keep the consumed message, so that later steps can inspect it:
+                connection.lastMessage = { channelLabel: channel.label, content: message };
 
                 resolve();
             };
 
             const listenForMessage = (channel: DataChannelStream) => {
                 if (this.matchesChannel(channel)) {
-                    channel.once('data', messageReceived);
+                    const listener = (message: string | Buffer) => messageReceived(channel, message);
+                    messageListeners.set(channel, listener);
+                    channel.once('data', listener);
+                    // Channels are paused by previous wait steps, so we need to explicitly resume:
+                    channel.resume();
                 }
             }
 
@@ -177,6 +322,142 @@ export class SendStepImpl extends SendStep {
 
 }
 
+export class ConditionalMessageStepImpl extends ConditionalMessageStep {
+
+    private thenStepImpls!: HandlerStepImpl[];
+    private elseStepImpls!: HandlerStepImpl[];
+
+    buildNestedSteps(stepLookup: StepImplLookup) {
+        this.thenStepImpls = this.thenSteps.map((definition) => buildStepImpl(definition, stepLookup));
+        this.elseStepImpls = this.elseSteps.map((definition) => buildStepImpl(definition, stepLookup));
+    }
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        const { lastMessage } = connection;
+
+        const steps = lastMessage && matchesMessagePattern(this.pattern, lastMessage.content)
+            ? this.thenStepImpls
+            : this.elseStepImpls;
+
+        const completed = await runSteps(steps, connection);
+
+        // If the branch ended with a final step, the connection's handling is complete, so we close
+        // it here, and the remaining steps after this conditional step are not run:
+        if (completed) await connection.close();
+    }
+
+    static deserialize(data: {
+        pattern: MessagePatternDefinition,
+        thenSteps: Array<SerializedValue<HandlerStepDefinition>>,
+        elseSteps: Array<SerializedValue<HandlerStepDefinition>>
+    }, channel: ClientServerChannel, options: unknown): ConditionalMessageStep {
+        return new ConditionalMessageStep(
+            data.pattern,
+            data.thenSteps.map((stepData, i) =>
+                deserializeStep(stepData, scopeChannel(channel, `then:${i}`), options)
+            ),
+            data.elseSteps.map((stepData, i) =>
+                deserializeStep(stepData, scopeChannel(channel, `else:${i}`), options)
+            )
+        );
+    }
+
+}
+
+export class PlayMediaStepImpl extends PlayMediaStep {
+
+    private matchesTrack(track: MediaTrackStream, kind: 'audio' | 'video' | undefined) {
+        if (this.mid !== undefined) return track.mid === this.mid;
+        else return kind === undefined || track.type === kind;
+    }
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        const kind = this.kind ?? getMediaSourceKind(getMediaSourceFormat(this.source));
+
+        const track = await new Promise<MediaTrackStream>((resolve) => {
+            const existingTrack = connection.mediaTracks.find((track) => this.matchesTrack(track, kind));
+            if (existingTrack) return resolve(existingTrack);
+
+            const trackCreated = (track: MediaTrackStream) => {
+                if (this.matchesTrack(track, kind)) {
+                    connection.removeListener('track-created', trackCreated);
+                    resolve(track);
+                }
+            };
+            connection.on('track-created', trackCreated);
+        });
+
+        if (!track.isOpen) {
+            await new Promise((resolve) => track.once('track-open', resolve));
+        }
+
+        const trackMedia = connection.getLocalDescription()?.parsedSdp.media
+            .find((media) => String(media.mid) === track.mid);
+
+        await playMediaFile(track, this.source, trackMedia);
+    }
+
+}
+
+// Rebuilds the answer callback for steps that renegotiate via the client, if they were given one
+function deserializeRenegotiation(
+    data: { renegotiateViaClient: boolean },
+    channel: ClientServerChannel
+) {
+    if (!data.renegotiateViaClient) return undefined;
+
+    return async (offer: MockRTCSessionDescription) => {
+        const response = await channel.request<
+            { offer: MockRTCSessionDescription },
+            { answer: MockRTCSessionDescription }
+        >({ offer });
+        return response.answer;
+    };
+}
+
+export class AddTrackStepImpl extends AddTrackStep {
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        connection.addMediaTrack(this.kind);
+        await connection.renegotiate({ negotiator: this.getAnswer });
+    }
+
+    static deserialize(
+        data: { kind: 'audio' | 'video', renegotiateViaClient: boolean },
+        channel: ClientServerChannel
+    ): AddTrackStep {
+        return new AddTrackStep(data.kind, deserializeRenegotiation(data, channel));
+    }
+
+}
+
+export class RemoveTrackStepImpl extends RemoveTrackStep {
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        const track = connection.mediaTracks.find(({ mid }) => mid === this.mid);
+        if (!track) throw new Error(`Can't remove track ${this.mid}, as no such track exists`);
+
+        track.destroy();
+        await connection.renegotiate({ negotiator: this.getAnswer });
+    }
+
+    static deserialize(
+        data: { mid: string, renegotiateViaClient: boolean },
+        channel: ClientServerChannel
+    ): RemoveTrackStep {
+        return new RemoveTrackStep(data.mid, deserializeRenegotiation(data, channel));
+    }
+
+}
+
+export class NetworkConditionsStepImpl extends NetworkConditionsStep {
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        connection.setNetworkConditions(this.conditions);
+    }
+
+}
+
 export class CloseStepImpl extends CloseStep {
 
     async handle(connection: MockRTCConnection): Promise<void> {
@@ -203,10 +484,414 @@ export class EchoStepImpl extends EchoStep {
 
 }
 
+// JSON objects or arrays, either of which can be indexed by string keys:
+type JsonContainer = { [key: string]: unknown };
+
+function isJsonContainer(value: unknown): value is JsonContainer {
+    return value !== null && typeof value === 'object';
+}
+
+function getJsonPath(value: unknown, path: string[]): unknown {
+    return path.reduce<unknown>((result, key) =>
+        isJsonContainer(result) ? result[key] : undefined
+    , value);
+}
+
+function buildTemplateResponse(template: string, message: string) {
+    let parsedMessage: unknown;
+    const getParsedMessage = () => (parsedMessage ??= JSON.parse(message));
+
+    return template.replace(/{{\s*([^}\s]+)\s*}}/g, (placeholder, name: string) => {
+        if (name === 'message') return message;
+
+        const [root, ...path] = name.split('.');
+        if (root !== 'json') return placeholder; // Unrecognized placeholders are left untouched
+
+        const value = getJsonPath(getParsedMessage(), path);
+        if (value === undefined) return '';
+        else if (typeof value === 'string') return value;
+        else return JSON.stringify(value);
+    });
+}
+
+function parseJsonPointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) throw new Error(`Invalid JSON pointer: ${pointer}`);
+
+    return pointer.slice(1).split('/').map((key) =>
+        key.replace(/~1/g, '/').replace(/~0/g, '~')
+    );
+}
+
+function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+    const getParent = (path: string[], root: unknown): JsonContainer => {
+        const parent = getJsonPath(root, path.slice(0, -1));
+        if (!isJsonContainer(parent)) {
+            throw new Error(`Cannot patch missing JSON path /${path.join('/')}`);
+        }
+        return parent;
+    };
+
+    const addValue = (root: unknown, path: string[], value: unknown): unknown => {
+        if (!path.length) return value;
+
+        const parent = getParent(path, root);
+        const key = path[path.length - 1];
+        if (Array.isArray(parent)) {
+            const index = key === '-' ? parent.length : parseInt(key, 10);
+            parent.splice(index, 0, value);
+        } else {
+            parent[key] = value;
+        }
+        return root;
+    };
+
+    const removeValue = (root: unknown, path: string[]): unknown => {
+        const parent = getParent(path, root);
+        const key = path[path.length - 1];
+        if (Array.isArray(parent)) parent.splice(parseInt(key, 10), 1);
+        else delete parent[key];
+        return root;
+    };
+
+    return operations.reduce<unknown>((result, operation) => {
+        const path = parseJsonPointer(operation.path);
+
+        switch (operation.op) {
+            case 'add':
+                return addValue(result, path, operation.value);
+            case 'replace':
+                if (!path.length) return operation.value;
+                return addValue(removeValue(result, path), path, operation.value);
+            case 'remove':
+                return removeValue(result, path);
+            case 'copy': {
+                const value = getJsonPath(result, parseJsonPointer(operation.from));
+                return addValue(result, path, JSON.parse(JSON.stringify(value)));
+            }
+            case 'move': {
+                const fromPath = parseJsonPointer(operation.from);
+                const value = getJsonPath(result, fromPath);
+                return addValue(removeValue(result, fromPath), path, value);
+            }
+            default: {
+                // Unreachable for valid operations, but deserialized data isn't type checked:
+                const unsupportedOperation: never = operation;
+                throw new Error(`Unsupported JSON patch operation: ${JSON.stringify(unsupportedOperation)}`);
+            }
+        }
+    }, document);
+}
+
+export class ReplyStepImpl extends ReplyStep {
+
+    private matchesChannel(channel: DataChannelStream) {
+        return this.channelLabel === undefined || this.channelLabel === channel.label;
+    }
+
+    private buildResponse(response: ReplyResponse, message: string | Buffer): string | Buffer {
+        if (typeof response === 'string' || Buffer.isBuffer(response)) return response;
+
+        const messageString = Buffer.isBuffer(message)
+            ? message.toString('utf8')
+            : message;
+
+        if ('template' in response) {
+            return buildTemplateResponse(response.template, messageString);
+        } else {
+            return JSON.stringify(applyJsonPatch(JSON.parse(messageString), response.jsonPatch));
+        }
+    }
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        // This step keeps running indefinitely, until the connection closes, or fails if a
+        // response can't be built (e.g. when patching a message that isn't valid JSON):
+        return new Promise<void>((resolve, reject) => {
+            const replyToMessages = (channel: DataChannelStream) => {
+                if (!this.matchesChannel(channel)) return;
+
+                channel.on('data', (message: string | Buffer) => {
+                    const mapping = this.mappings.find(({ pattern }) =>
+                        matchesMessagePattern(pattern, message)
+                    );
+                    if (!mapping) return; // Unmatched messages are ignored
+
+                    try {
+                        channel.write(this.buildResponse(mapping.response, message));
+                    } catch (e) {
+                        reject(e);
+                    }
+                });
+
+                // Channels may have been paused by previous wait steps, so we need to explicitly resume:
+                channel.resume();
+            };
+
+            connection.on('channel-created', replyToMessages);
+            connection.channels.forEach(replyToMessages);
+
+            connection.on('connection-closed', resolve);
+        });
+    }
+
+    static deserialize(data: {
+        mappings: Array<{
+            pattern: MessagePatternDefinition,
+            response: Exclude<ReplyResponse, Buffer> | { type: 'Buffer', data: number[] }
+        }>,
+        channelLabel?: string
+    }): ReplyStep {
+        return new ReplyStep(
+            data.mappings.map(({ pattern, response }) => ({
+                pattern,
+                response: typeof response === 'object' && 'type' in response && response.type === 'Buffer'
+                    // Buffers are serialized very roughly, so here we
+                    // turn them back into real Buffer instances:
+                    ? Buffer.from(response.data)
+                    : response as Exclude<ReplyResponse, Buffer>
+            })),
+            data.channelLabel
+        );
+    }
+
+}
+
+export class CallbackStepImpl extends CallbackStep {
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        const session: CallbackSessionInfo = {
+            sessionId: connection.id,
+            metadata: connection.metadata
+        };
+
+        const handleMessages = (channel: DataChannelStream) => {
+            const channelInfo: CallbackChannelInfo = {
+                id: channel.id,
+                label: channel.label,
+                protocol: channel.protocol
+            };
+
+            // Callbacks may be async, so we queue their results per channel, to ensure that
+            // responses are always sent in the same order as the messages they respond to:
+            let responseQueue = Promise.resolve();
+
+            channel.on('data', (message: string | Buffer) => {
+                // Run the callback immediately, even if a previous result is still pending:
+                const result = (async () => this.callback(message, channelInfo, session))();
+
+                responseQueue = responseQueue.then(async () => {
+                    const response = await result;
+                    if (response === undefined) return;
+
+                    const responses = Array.isArray(response) ? response : [response];
+                    responses.forEach((responseMessage) => channel.write(responseMessage));
+                }).catch((error) => {
+                    console.warn('Error in RTC callback step', error);
+                });
+            });
+
+            // Channels may have been paused by previous wait steps, so we need to explicitly resume:
+            channel.resume();
+        };
+
+        connection.on('channel-created', handleMessages);
+        connection.channels.forEach(handleMessages);
+
+        // This step keeps running indefinitely, until the connection closes
+        return new Promise<void>((resolve) => connection.on('connection-closed', resolve));
+    }
+
+    static deserialize({ name }: { name?: string }, channel: ClientServerChannel): CallbackStep {
+        const rpcCallback = async (
+            message: string | Buffer,
+            channelInfo: CallbackChannelInfo,
+            session: CallbackSessionInfo
+        ): Promise<CallbackStepResult> => {
+            const { response } = await channel.request<
+                { message: SerializedMessage, channel: CallbackChannelInfo, session: CallbackSessionInfo },
+                { response: SerializedMessage[] }
+            >({ message: serializeMessage(message), channel: channelInfo, session });
+
+            return response.map(deserializeMessage);
+        };
+
+        // Pass across the name from the real callback, for explain()
+        Object.defineProperty(rpcCallback, 'name', { value: name });
+
+        return new CallbackStep(rpcCallback);
+    }
+
+}
+
+function setJsonPath(value: unknown, path: string[], newValue: unknown): unknown {
+    if (path.length === 0) return newValue;
+
+    const [key, ...remainingPath] = path;
+    const container: JsonContainer = isJsonContainer(value) ? value : {};
+    container[key] = setJsonPath(container[key], remainingPath, newValue);
+    return container;
+}
+
+function deleteJsonPath(value: unknown, path: string[]) {
+    const parent = getJsonPath(value, path.slice(0, -1));
+    const key = path[path.length - 1];
+
+    if (Array.isArray(parent)) parent.splice(Number(key), 1);
+    else if (isJsonContainer(parent)) delete parent[key];
+}
+
+function matchesMessageFilter(
+    filter: ProxiedMessageFilterDefinition,
+    message: string | Buffer,
+    info: ProxiedMessageInfo
+) {
+    return (filter.direction === undefined || filter.direction === info.direction) &&
+        (filter.channelLabel === undefined || filter.channelLabel === info.channelLabel) &&
+        (filter.matching === undefined || matchesMessagePattern(filter.matching, message));
+}
+
+function applyTransformRules(
+    rules: MessageTransformRuleDefinition[],
+    message: string | Buffer,
+    info: ProxiedMessageInfo
+): string | Buffer | null {
+    let result = message;
+
+    for (const rule of rules) {
+        if (!matchesMessageFilter(rule, result, info)) continue;
+
+        if (rule.type === 'drop') return null;
+        if (typeof result !== 'string') continue; // Other transforms only apply to text messages
+
+        if (rule.type === 'replace') {
+            result = typeof rule.pattern === 'string'
+                ? result.split(rule.pattern).join(rule.replacement)
+                : result.replace(
+                    new RegExp(rule.pattern.regexSource, rule.pattern.regexFlags),
+                    rule.replacement
+                );
+        } else {
+            let json: unknown;
+            try {
+                json = JSON.parse(result);
+            } catch (e) {
+                continue; // JSON transforms skip non-JSON messages
+            }
+
+            const path = rule.path.split('.');
+            if (rule.type === 'set-json') {
+                json = setJsonPath(json, path, rule.value);
+            } else {
+                deleteJsonPath(json, path);
+            }
+            result = JSON.stringify(json);
+        }
+    }
+
+    return result;
+}
+
+export class MessageTransformStepImpl extends MessageTransformStep {
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        if (this.rules) {
+            const rules = this.rules;
+            connection.messageTransform = async (message, info) =>
+                applyTransformRules(rules, message, info);
+        } else {
+            const callback = this.callback!;
+            connection.messageTransform = async (message, info) => {
+                const result = await callback(message, info);
+                return result === undefined ? message : result as string | Buffer | null;
+            };
+        }
+    }
+
+    static deserialize(
+        data: { rules?: MessageTransformRuleDefinition[], name?: string },
+        channel: ClientServerChannel,
+        options: unknown
+    ): MessageTransformStep {
+        if (data.rules) return super.deserialize(data, channel, options) as MessageTransformStep;
+
+        const rpcCallback = async (
+            message: string | Buffer,
+            info: ProxiedMessageInfo
+        ): Promise<string | Buffer | null | void> => {
+            const { result } = await channel.request<
+                { message: SerializedMessage, info: ProxiedMessageInfo },
+                { result: SerializedMessage | null | undefined }
+            >({ message: serializeMessage(message), info });
+
+            return result === null || result === undefined
+                ? result
+                : deserializeMessage(result);
+        };
+
+        // Pass across the name from the real callback, for explain()
+        Object.defineProperty(rpcCallback, 'name', { value: data.name });
+
+        return new MessageTransformStep(rpcCallback);
+    }
+
+}
+
+export class MessageBreakpointStepImpl extends MessageBreakpointStep {
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        connection.messageBreakpoints.push((message, info) =>
+            matchesMessageFilter(this.filter, message, info)
+        );
+    }
+
+}
+
+export class ChannelRouteStepImpl extends ChannelRouteStep {
+
+    private stepImpls!: HandlerStepImpl[];
+
+    buildNestedSteps(stepLookup: StepImplLookup) {
+        this.stepImpls = this.steps.map((definition) => buildStepImpl(definition, stepLookup));
+    }
+
+    async handle(connection: MockRTCConnection): Promise<void> {
+        connection.setChannelRoute(this.channelLabel, this.route);
+
+        // Channels routed elsewhere are hidden from the main steps, so we use a view of just these:
+        const channelView = connection.getChannelView(this.channelLabel);
+
+        if (this.route === 'drop') {
+            // Consume & discard everything received on matching channels:
+            const dropChannel = (channel: DataChannelStream) => channel.resume();
+            channelView.channels.forEach(dropChannel);
+            channelView.on('channel-created', dropChannel);
+        } else if (this.route === 'mock') {
+            // Mocked channels are handled by their own steps in the background, while the
+            // remaining steps continue to handle the rest of the connection:
+            runSteps(this.stepImpls, channelView).catch((error) => {
+                console.warn(`Error handling RTC channel ${this.channelLabel}`, error);
+            });
+        }
+    }
+
+    static deserialize(data: {
+        channelLabel: string,
+        route: ChannelRoute,
+        steps: Array<SerializedValue<HandlerStepDefinition>>
+    }, channel: ClientServerChannel, options: unknown): ChannelRouteStep {
+        return new ChannelRouteStep(
+            data.channelLabel,
+            data.route,
+            data.steps.map((stepData, i) => deserializeStep(stepData, scopeChannel(channel, `${i}`), options))
+        );
+    }
+
+}
+
 export class PeerProxyStepImpl extends PeerProxyStep {
 
     async handle(connection: MockRTCConnection) {
-        const externalConn = new RTCConnection();
+        const externalConn = new RTCConnection(connection.options);
         this.externalConnections.push(externalConn);
 
         // We mirror the internal peer's SDP as an offer to the given connection:
@@ -215,6 +900,9 @@ export class PeerProxyStepImpl extends PeerProxyStep {
         );
         externalConn.setRemoteDescription(await this.getAnswer(externalOffer));
 
+        // The same callback can answer later offers, if the connection needs renegotiating:
+        externalConn.negotiator = this.getAnswer;
+
         await connection.proxyTrafficTo(externalConn);
 
         // This step keeps running indefinitely, until the connection closes
@@ -264,7 +952,7 @@ export class DynamicProxyStepImpl extends DynamicProxyStep {
 
 }
 
-export const StepLookup: typeof StepDefinitionLookup = {
+export const StepLookup: typeof StepDefinitionLookup & StepImplLookup = {
     'wait-for-duration': WaitForDurationStepImpl,
     'wait-for-rtc-data-channel': WaitForChannelStepImpl,
     'wait-for-rtc-track': WaitForTrackStepImpl,
@@ -272,8 +960,18 @@ export const StepLookup: typeof StepDefinitionLookup = {
     'wait-for-rtc-message': WaitForMessageStepImpl,
     'create-rtc-data-channel': CreateChannelStepImpl,
     'send-rtc-data-message': SendStepImpl,
+    'if-rtc-message-matches': ConditionalMessageStepImpl,
+    'play-rtc-media': PlayMediaStepImpl,
+    'add-rtc-track': AddTrackStepImpl,
+    'remove-rtc-track': RemoveTrackStepImpl,
+    'set-rtc-network-conditions': NetworkConditionsStepImpl,
+    'rtc-message-transform': MessageTransformStepImpl,
+    'rtc-message-breakpoint': MessageBreakpointStepImpl,
+    'route-rtc-data-channel': ChannelRouteStepImpl,
     'close-rtc-connection': CloseStepImpl,
     'echo-rtc': EchoStepImpl,
+    'reply-rtc': ReplyStepImpl,
+    'rtc-callback': CallbackStepImpl,
     'rtc-peer-proxy': PeerProxyStepImpl,
     'rtc-dynamic-proxy': DynamicProxyStepImpl
 };
\ No newline at end of file
@@ -12,6 +12,7 @@ import { MockRTCClient, MockRTCClientOptions } from "./client/mockrtc-client";
 // Export the required structures to remotely build and send rules to the admin API:
 export * as steps from "./handling/handler-step-definitions";
 export * as matchers from "./matching/matcher-definitions";
+export * as completionCheckers from "./matching/completion-checkers";
 export { MockRTCAdminRequestBuilder } from "./client/mockrtc-admin-request-builder";
 
 export type {
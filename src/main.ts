@@ -6,16 +6,23 @@
 import {
     MockRTC,
     MockRTCOptions,
+    MediaRecordingOptions,
+    RTCConnectionOptions,
+    RTCIceServerOptions,
+    EmbeddedTurnServerOptions,
+    SignallingServerOptions,
     MockRTCPeerBuilder,
     MockRTCEvent,
     MockRTCEventData,
     MockRTCRuleDefinition,
+    MockRTCRuleOptions,
+    MockRTCRule,
     MockRTCSessionDescription,
     SelectedRTCCandidate,
     TimingEvents
 } from "./mockrtc";
 
-import { MockRTCServer } from "./server/mockrtc-server";
+import { MockRTCServer, MockRTCExtensions } from "./server/mockrtc-server";
 import { MockRTCAdminServer } from "./server/mockrtc-admin-server";
 export { MockRTCAdminPlugin } from "./server/mockrtc-admin-plugin";
 
@@ -24,15 +31,21 @@ import { MockRTCClient, MockRTCClientOptions } from "./client/mockrtc-client";
 // Export the required structures to remotely build and send rules to the admin API:
 export * as steps from "./handling/handler-step-definitions";
 export * as matchers from "./matching/matcher-definitions";
+export * as completionCheckers from "./matching/completion-checkers";
 export { MockRTCAdminRequestBuilder } from "./client/mockrtc-admin-request-builder";
 
 // Re-export lots of types are used in various APIs (mostly to make TypeDoc happy):
-export type { HandlerStepImpl as HandlerStep } from "./handling/handler-step-impls";
-export type { MockRTCHandlerBuilder } from "./handling/handler-builder";
+export type {
+    HandlerStepImpl as HandlerStep,
+    HandlerStepImplClass
+} from "./handling/handler-step-impls";
+export type { MatcherImpl, MatcherImplClass } from "./matching/matcher-impls";
+export type { MockRTCHandlerBuilder, BranchStepsDefinition } from "./handling/handler-builder";
 export type { MockRTCRuleBuilder, RuleHandlerBuilder } from "./rule-builder";
 
 export type { MockRTCServerPeer } from "./server/mockrtc-server-peer";
 export type { SessionData } from "./server/mockrtc-admin-plugin";
+export type { WebSocketSignallingMessage } from "./server/mockrtc-signalling-server";
 
 export type { RTCConnection, ParsedSDP } from "./webrtc/rtc-connection";
 export type { MockRTCConnection } from "./webrtc/mockrtc-connection";
@@ -44,12 +57,20 @@ export type { PluggableAdmin } from 'mockttp';
 export type {
     MockRTC,
     MockRTCOptions,
+    MediaRecordingOptions,
+    RTCConnectionOptions,
+    RTCIceServerOptions,
+    EmbeddedTurnServerOptions,
+    SignallingServerOptions,
     MockRTCClientOptions,
     MockRTCPeerBuilder,
     MockRTCAdminServer,
+    MockRTCExtensions,
     MockRTCEvent,
     MockRTCEventData,
     MockRTCRuleDefinition,
+    MockRTCRuleOptions,
+    MockRTCRule,
     MockRTCSessionDescription,
     SelectedRTCCandidate,
     TimingEvents
@@ -65,7 +86,9 @@ export type {
     MockRTCExternalAnswerParams,
     OfferOptions,
     AnswerOptions,
-    ConnectionMetadata
+    ConnectionMetadata,
+    NetworkConditions,
+    InjectMessageOptions
 } from './mockrtc-peer';
 
 export {
@@ -83,7 +106,8 @@ export {
  * In most simple environments, you can call this method directly and immediately
  * get a MockRTC instance and start mocking peers.
  *
- * In node, the mocked peers will run in process and require no further setup.
+ * In node, the mocked peers will run in process and require no further setup. Custom
+ * step & matcher implementations can be registered here, to use them in this session.
  *
  * In browsers this is an alias for {@link getRemote}. You'll need to start a MockRTC
  * admin server outside your tests before calling this, which will create and manage
@@ -91,8 +115,11 @@ export {
  *
  * @category API
  */
-export function getLocal(): MockRTC {
-    return new MockRTCServer();
+export function getLocal(
+    options: MockRTCOptions = {},
+    extensions: MockRTCExtensions = {}
+): MockRTC {
+    return new MockRTCServer(options, extensions);
 }
 
 /**
@@ -120,8 +147,11 @@ export function getRemote(options: MockRTCClientOptions = {}): MockRTC {
  * mockrtc -c <your test command>
  * ```
  *
+ * Custom step & matcher implementations can be registered here, to make them available in
+ * every session started on this server.
+ *
  * @category API
  */
-export function getAdminServer(): MockRTCAdminServer {
-    return new MockRTCAdminServer();
+export function getAdminServer(extensions: MockRTCExtensions = {}): MockRTCAdminServer {
+    return new MockRTCAdminServer(extensions);
 }
\ No newline at end of file
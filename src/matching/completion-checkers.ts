@@ -0,0 +1,75 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Serializable } from './matcher-definitions';
+
+/**
+ * Completion checkers define how many connections a rule should handle, before it is
+ * considered complete and stops matching connections.
+ */
+export interface CompletionCheckerDefinition extends Serializable {
+    readonly type: keyof typeof CompletionCheckerLookup;
+    isComplete(hitCount: number): boolean;
+    explain(hitCount?: number): string;
+}
+
+export class Always extends Serializable implements CompletionCheckerDefinition {
+
+    readonly type = 'always';
+
+    isComplete() {
+        return false;
+    }
+
+    explain(hitCount?: number) {
+        return explainUntil(hitCount, Infinity, 'always');
+    }
+
+}
+
+export class Once extends Serializable implements CompletionCheckerDefinition {
+
+    readonly type = 'once';
+
+    isComplete(hitCount: number) {
+        return hitCount >= 1;
+    }
+
+    explain(hitCount?: number) {
+        return explainUntil(hitCount, 1, 'once');
+    }
+
+}
+
+export class NTimes extends Serializable implements CompletionCheckerDefinition {
+
+    readonly type = 'times';
+
+    constructor(
+        public readonly count: number
+    ) {
+        super();
+    }
+
+    isComplete(hitCount: number) {
+        return hitCount >= this.count;
+    }
+
+    explain(hitCount?: number) {
+        return explainUntil(hitCount, this.count, `${this.count} times`);
+    }
+
+}
+
+function explainUntil(hitCount: number | undefined, limit: number, name: string) {
+    if (hitCount === undefined) return name;
+    return `${name} ${hitCount < limit ? `(seen ${hitCount})` : '(done)'}`;
+}
+
+export const CompletionCheckerLookup = {
+    'always': Always,
+    'once': Once,
+    'times': NTimes
+};
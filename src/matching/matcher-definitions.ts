@@ -4,12 +4,27 @@
  */
 
 import * as PluggableAdmin from 'mockttp/dist/pluggable-admin-api/pluggable-admin.browser';
+import type * as SDP from 'sdp-transform';
+
+import {
+    MessagePatternDefinition,
+    explainMessagePattern,
+    scopeChannel
+} from '../handling/handler-step-definitions';
+
+type ClientServerChannel = PluggableAdmin.Serialization.ClientServerChannel;
 
 export type Serializable = PluggableAdmin.Serialization.Serializable;
 export const { Serializable } = PluggableAdmin.Serialization;
 
 export interface MatcherDefinition extends Serializable {
-    readonly type: keyof typeof MatcherDefinitionLookup;
+    /**
+     * The type of the matcher. Built-in matchers use the types in {@link MatcherDefinitionLookup},
+     * while custom matchers can use any other type, as long as a corresponding implementation has
+     * been registered with the MockRTC server.
+     */
+    readonly type: string;
+    explain(): string;
 }
 
 export class HasDataChannelMatcher extends Serializable implements MatcherDefinition {
@@ -98,6 +113,287 @@ export class UserAgentRegexMatcher  extends Serializable implements MatcherDefin
 
 }
 
+export class SelectedCandidateTypeMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-selected-candidate-type';
+
+    constructor(
+        public readonly candidateType: RTCIceCandidateType
+    ) {
+        super();
+    }
+
+    explain() {
+        return `connected via a ${this.candidateType} candidate`;
+    }
+
+}
+
+export class ChannelLabelMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-channel-label';
+
+    constructor(
+        public readonly channelLabel: string
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with a data channel labelled '${this.channelLabel}'`;
+    }
+
+}
+
+export class ChannelProtocolMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-channel-protocol';
+
+    constructor(
+        public readonly channelProtocol: string
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with a data channel using the '${this.channelProtocol}' protocol`;
+    }
+
+}
+
+export class FirstMessageMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-first-message';
+
+    constructor(
+        public readonly pattern: MessagePatternDefinition
+    ) {
+        super();
+    }
+
+    explain() {
+        return `whose first RTC message ${explainMessagePattern(this.pattern)}`;
+    }
+
+}
+
+export type MediaKind = 'audio' | 'video';
+
+export class CodecMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-codec';
+
+    constructor(
+        public readonly mediaKind: MediaKind,
+        public readonly codec: string
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with ${this.mediaKind} using the ${this.codec} codec`;
+    }
+
+}
+
+export class SimulcastMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-simulcast';
+
+    explain() {
+        return `with simulcast media`;
+    }
+
+}
+
+export class HeaderExtensionMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-header-extension';
+
+    constructor(
+        public readonly extensionUri: string
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with the ${this.extensionUri} RTP header extension`;
+    }
+
+}
+
+export type MediaDirection = 'sendrecv' | 'sendonly' | 'recvonly' | 'inactive';
+
+export class MediaDirectionMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-media-direction';
+
+    constructor(
+        public readonly direction: MediaDirection
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with ${this.direction} media`;
+    }
+
+}
+
+/**
+ * A callback used to match connections by their parsed SDP. This is called with the remote
+ * peer's description first, followed by the mock peer's own local description, and should
+ * return (or resolve to) true for connections that should match.
+ */
+export type SdpMatcherCallback = (
+    remoteSdp: SDP.SessionDescription,
+    localSdp: SDP.SessionDescription
+) => boolean | Promise<boolean>;
+
+export class SdpCallbackMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-sdp-callback';
+
+    constructor(
+        public readonly callback: SdpMatcherCallback
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with SDP matching the provided callback${
+            this.callback.name ? ` (${this.callback.name})` : ''
+        }`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        channel.onRequest<
+            { remoteSdp: SDP.SessionDescription, localSdp: SDP.SessionDescription },
+            { result: boolean }
+        >(async ({ remoteSdp, localSdp }) => ({
+            result: !!(await this.callback(remoteSdp, localSdp))
+        }));
+
+        return { type: this.type, name: this.callback.name };
+    }
+
+}
+
+export class MetadataMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-metadata';
+
+    readonly regexSource: string | undefined;
+    readonly regexFlags: string | undefined;
+    readonly value: unknown;
+
+    constructor(
+        public readonly key: string,
+        value: unknown
+    ) {
+        super();
+
+        if (value instanceof RegExp) {
+            this.regexSource = value.source;
+            this.regexFlags = value.flags;
+        } else {
+            this.value = value;
+        }
+    }
+
+    explain() {
+        return this.regexSource !== undefined
+            ? `with ${this.key} metadata matching /${this.regexSource}/${this.regexFlags}`
+            : `with ${this.key} metadata matching ${JSON.stringify(this.value)}`;
+    }
+
+}
+
+export class MetadataSubsetMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-metadata-subset';
+
+    constructor(
+        public readonly metadataSubset: {}
+    ) {
+        super();
+    }
+
+    explain() {
+        return `with metadata including ${JSON.stringify(this.metadataSubset)}`;
+    }
+
+}
+
+export class AnyOfMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-any-of';
+
+    constructor(
+        public readonly matchers: MatcherDefinition[]
+    ) {
+        super();
+    }
+
+    explain() {
+        return `(${this.matchers.map(m => m.explain()).join(' or ')})`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        return {
+            type: this.type,
+            matchers: this.matchers.map((matcher, i) => matcher.serialize(scopeChannel(channel, `${i}`)))
+        };
+    }
+
+}
+
+export class AllOfMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-all-of';
+
+    constructor(
+        public readonly matchers: MatcherDefinition[]
+    ) {
+        super();
+    }
+
+    explain() {
+        return `(${this.matchers.map(m => m.explain()).join(' and ')})`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        return {
+            type: this.type,
+            matchers: this.matchers.map((matcher, i) => matcher.serialize(scopeChannel(channel, `${i}`)))
+        };
+    }
+
+}
+
+export class NotMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'rtc-not';
+
+    constructor(
+        public readonly matcher: MatcherDefinition
+    ) {
+        super();
+    }
+
+    explain() {
+        return `not ${this.matcher.explain()}`;
+    }
+
+    serialize(channel: ClientServerChannel): {} {
+        return {
+            type: this.type,
+            matcher: this.matcher.serialize(scopeChannel(channel, '0'))
+        };
+    }
+
+}
+
 export const MatcherDefinitionLookup = {
     'has-rtc-data-channel': HasDataChannelMatcher,
     'has-rtc-video-track': HasVideoTrackMatcher,
@@ -105,5 +401,19 @@ export const MatcherDefinitionLookup = {
     'has-rtc-media-track': HasMediaTrackMatcher,
     'rtc-page-hostname': HostnameMatcher,
     'rtc-page-regex': UrlRegexMatcher,
-    'rtc-user-agent-regex': UserAgentRegexMatcher
+    'rtc-user-agent-regex': UserAgentRegexMatcher,
+    'rtc-selected-candidate-type': SelectedCandidateTypeMatcher,
+    'rtc-channel-label': ChannelLabelMatcher,
+    'rtc-channel-protocol': ChannelProtocolMatcher,
+    'rtc-first-message': FirstMessageMatcher,
+    'rtc-codec': CodecMatcher,
+    'rtc-simulcast': SimulcastMatcher,
+    'rtc-header-extension': HeaderExtensionMatcher,
+    'rtc-media-direction': MediaDirectionMatcher,
+    'rtc-sdp-callback': SdpCallbackMatcher,
+    'rtc-metadata': MetadataMatcher,
+    'rtc-metadata-subset': MetadataSubsetMatcher,
+    'rtc-any-of': AnyOfMatcher,
+    'rtc-all-of': AllOfMatcher,
+    'rtc-not': NotMatcher
 };
\ No newline at end of file
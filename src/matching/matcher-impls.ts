@@ -4,20 +4,172 @@
  */
 
 import { RTCConnection } from "../webrtc/rtc-connection";
+import type { DataChannelStream } from "../webrtc/datachannel-stream";
+import { matchesJsonSubset, matchesMessagePattern } from "../handling/handler-step-impls";
+import type { PluggableAdmin } from 'mockttp';
+import type * as SDP from 'sdp-transform';
+
 import {
     MatcherDefinition,
     MatcherDefinitionLookup,
+    MediaKind,
     HasAudioTrackMatcher,
     HasDataChannelMatcher,
     HasMediaTrackMatcher,
     HasVideoTrackMatcher,
     HostnameMatcher,
     UrlRegexMatcher,
-    UserAgentRegexMatcher
+    UserAgentRegexMatcher,
+    SelectedCandidateTypeMatcher,
+    ChannelLabelMatcher,
+    ChannelProtocolMatcher,
+    FirstMessageMatcher,
+    CodecMatcher,
+    SimulcastMatcher,
+    HeaderExtensionMatcher,
+    MediaDirectionMatcher,
+    SdpCallbackMatcher,
+    MetadataMatcher,
+    MetadataSubsetMatcher,
+    AnyOfMatcher,
+    AllOfMatcher,
+    NotMatcher
 } from "./matcher-definitions";
+import { scopeChannel } from "../handling/handler-step-definitions";
+
+type ClientServerChannel = PluggableAdmin.Serialization.ClientServerChannel;
+type SerializedValue<T> = PluggableAdmin.Serialization.SerializedValue<T>;
 
 export interface MatcherImpl extends MatcherDefinition {
-    matches(connection: RTCConnection): boolean;
+    matches(connection: RTCConnection, context: MatchingContext): boolean | Promise<boolean>;
+
+    /**
+     * Builds the implementations of any matchers nested within this matcher. This is called when
+     * the matcher itself is built, with the same matcher lookup, so custom matchers can be nested.
+     */
+    buildNestedMatchers?(matcherLookup: MatcherImplLookup): void;
+}
+
+/**
+ * Some matchers depend on data channel activity, which may not have happened yet when a
+ * connection is first matched. The matching context allows matchers to wait for that activity,
+ * up to the matching timeout, sharing the same wait across all matchers for a connection.
+ */
+export interface MatchingContext {
+    /**
+     * Resolves with the first data channel on the connection that matches the given condition,
+     * waiting for one to be created if required, or undefined if none is created before the
+     * timeout passes or the connection closes.
+     */
+    waitForChannel(condition: (channel: DataChannelStream) => boolean): Promise<DataChannelStream | undefined>;
+
+    /**
+     * Resolves with the first message received on the connection, or undefined if no message
+     * is received before the timeout.
+     */
+    waitForFirstMessage(): Promise<RTCConnection['firstMessage']>;
+}
+
+export function buildMatchingContext(connection: RTCConnection, timeoutMs: number): MatchingContext {
+    // The timeout applies to matching as a whole, however many times or however late we wait:
+    const deadline = Date.now() + timeoutMs;
+    let firstMessagePromise: Promise<RTCConnection['firstMessage']> | undefined;
+
+    return {
+        // Each channel matcher waits for its own channel, since apps often open several channels
+        // at once, and the channel that matters may not be the first:
+        waitForChannel: (condition) => waitForConnectionData(
+            connection,
+            'channel-created',
+            () => connection.channels.find(condition),
+            deadline
+        ),
+        waitForFirstMessage: () => firstMessagePromise ??= waitForConnectionData(
+            connection,
+            'first-message',
+            () => connection.firstMessage,
+            deadline
+        )
+    };
+}
+
+// Waits until the given data is available (checked whenever the given event fires), or the deadline
+// passes, or the connection closes, resolving with the data or undefined.
+function waitForConnectionData<T>(
+    connection: RTCConnection,
+    eventName: string,
+    getData: () => T | undefined,
+    deadline: number
+): Promise<T | undefined> {
+    const data = getData();
+    if (data !== undefined || connection.isClosed) return Promise.resolve(data);
+
+    return new Promise((resolve) => {
+        const finish = () => {
+            clearTimeout(timeout);
+            connection.removeListener(eventName, checkData);
+            connection.removeListener('connection-closed', finish);
+            resolve(getData());
+        };
+
+        const checkData = () => {
+            if (getData() !== undefined) finish();
+        };
+
+        const timeout = setTimeout(finish, Math.max(deadline - Date.now(), 0));
+        connection.on(eventName, checkData);
+        connection.on('connection-closed', finish);
+    });
+}
+
+/**
+ * A matcher implementation class. Custom matchers can be registered with a MockRTC server
+ * using classes like this, extending their corresponding matcher definition.
+ */
+export interface MatcherImplClass {
+    new (...args: any[]): MatcherImpl;
+    deserialize(data: SerializedValue<any>, channel: ClientServerChannel, options: unknown): any;
+}
+
+export type MatcherImplLookup = { [type: string]: MatcherImplClass };
+
+/**
+ * Takes a matcher definition, and returns the equivalent matcher implementation, ready to
+ * match connections, including any nested matchers.
+ */
+export function buildMatcherImpl(
+    definition: MatcherDefinition,
+    matcherLookup: MatcherImplLookup = MatcherLookup
+): MatcherImpl {
+    const matcherClass = matcherLookup[definition.type];
+    if (!matcherClass) throw new Error(`Unrecognized RTC matcher type: ${definition.type}`);
+
+    const matcher: MatcherImpl = Object.assign(
+        Object.create(matcherClass.prototype),
+        definition
+    );
+    matcher.buildNestedMatchers?.(matcherLookup);
+    return matcher;
+}
+
+// Deserializes matchers nested within another matcher, using a scoped view of the parent
+// matcher's channel. This uses the matcher lookup of the parent deserialization, if any, so
+// custom matchers can be nested.
+function deserializeMatcher(
+    data: SerializedValue<MatcherDefinition>,
+    channel: ClientServerChannel,
+    options: unknown
+): MatcherDefinition {
+    const matcherLookup = (options as MatcherDeserializationOptions | undefined)?.matcherLookup ?? MatcherLookup;
+
+    const matcherClass = matcherLookup[data.type];
+    if (!matcherClass) throw new Error(`Unrecognized RTC matcher type: ${data.type}`);
+
+    return matcherClass.deserialize(data, channel, options);
+}
+
+export interface MatcherDeserializationOptions {
+    matcherLookup?: MatcherImplLookup;
 }
 
 export class HasDataChannelMatcherImpl extends HasDataChannelMatcher {
@@ -107,12 +259,270 @@ export class UserAgentRegexMatcherImpl extends UserAgentRegexMatcher {
 
 }
 
-export const MatcherLookup: typeof MatcherDefinitionLookup = {
+export class SelectedCandidateTypeMatcherImpl extends SelectedCandidateTypeMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        const candidates = connection.getSelectedCandidates();
+        return candidates?.local.type === this.candidateType ||
+            candidates?.remote.type === this.candidateType;
+    }
+
+}
+
+export class ChannelLabelMatcherImpl extends ChannelLabelMatcher {
+
+    async matches(_connection: RTCConnection, context: MatchingContext): Promise<boolean> {
+        const channel = await context.waitForChannel(channel => channel.label === this.channelLabel);
+        return !!channel;
+    }
+
+}
+
+export class ChannelProtocolMatcherImpl extends ChannelProtocolMatcher {
+
+    async matches(_connection: RTCConnection, context: MatchingContext): Promise<boolean> {
+        const channel = await context.waitForChannel(channel => channel.protocol === this.channelProtocol);
+        return !!channel;
+    }
+
+}
+
+export class FirstMessageMatcherImpl extends FirstMessageMatcher {
+
+    async matches(_connection: RTCConnection, context: MatchingContext): Promise<boolean> {
+        const message = await context.waitForFirstMessage();
+        return !!message && matchesMessagePattern(this.pattern, message.content);
+    }
+
+}
+
+// SDP matchers check the remote peer's description, i.e. the media that the remote peer
+// is offering or accepting, rather than anything generated by the mock peer itself.
+const getRemoteMedia = (connection: RTCConnection) =>
+    connection.getRemoteDescription()!.parsedSdp.media
+        .filter(media => media.type === 'audio' || media.type === 'video');
+
+// Formats used for retransmission & error correction, which are listed like codecs, but are never
+// the codec that's actually negotiated for media:
+const NON_CODEC_FORMATS = ['rtx', 'red', 'ulpfec', 'flexfec-03'];
+
+// Gets the codec negotiated for each media section of the given kind: the first codec in the answer's
+// order of preference that the offer includes too.
+const getNegotiatedCodecs = (connection: RTCConnection, mediaKind: MediaKind): string[] => {
+    const localDescription = connection.getLocalDescription()!;
+    const remoteDescription = connection.getRemoteDescription()!;
+    const [answer, offer] = localDescription.type === 'answer'
+        ? [localDescription.parsedSdp, remoteDescription.parsedSdp]
+        : [remoteDescription.parsedSdp, localDescription.parsedSdp];
+
+    return answer.media
+        .filter(media => media.type === mediaKind && media.port !== 0) // Port 0 means rejected
+        .map((answerMedia) => {
+            const offerMedia = offer.media.find(media => String(media.mid) === String(answerMedia.mid));
+            const offeredCodecs = offerMedia?.rtp.map(rtp => rtp.codec.toLowerCase()) ?? [];
+
+            return String(answerMedia.payloads ?? '').split(' ')
+                .map(payload => answerMedia.rtp.find(rtp => rtp.payload === Number(payload)))
+                .map(rtp => rtp?.codec.toLowerCase())
+                .find((codec): codec is string =>
+                    !!codec &&
+                    !NON_CODEC_FORMATS.includes(codec) &&
+                    offeredCodecs.includes(codec)
+                );
+        })
+        .filter((codec): codec is string => !!codec);
+};
+
+export class CodecMatcherImpl extends CodecMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        const codec = this.codec.toLowerCase();
+        return getNegotiatedCodecs(connection, this.mediaKind).includes(codec);
+    }
+
+}
+
+export class SimulcastMatcherImpl extends SimulcastMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        return getRemoteMedia(connection).some(media =>
+            !!media.simulcast || !!media.simulcast_03 || !!media.rids?.length
+        );
+    }
+
+}
+
+export class HeaderExtensionMatcherImpl extends HeaderExtensionMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        return getRemoteMedia(connection).some(media =>
+            !!media.ext?.some(ext => ext.uri === this.extensionUri)
+        );
+    }
+
+}
+
+export class MediaDirectionMatcherImpl extends MediaDirectionMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        const sessionDirection = connection.getRemoteDescription()!.parsedSdp.direction;
+        return getRemoteMedia(connection).some(media =>
+            (media.direction ?? sessionDirection ?? 'sendrecv') === this.direction
+        );
+    }
+
+}
+
+export class SdpCallbackMatcherImpl extends SdpCallbackMatcher {
+
+    async matches(connection: RTCConnection): Promise<boolean> {
+        try {
+            return !!(await this.callback(
+                connection.getRemoteDescription()!.parsedSdp,
+                connection.getLocalDescription()!.parsedSdp
+            ));
+        } catch (error) {
+            console.warn('Error in RTC SDP matcher callback', error);
+            return false;
+        }
+    }
+
+    static deserialize({ name }: { name?: string }, channel: ClientServerChannel): SdpCallbackMatcher {
+        const rpcCallback = async (
+            remoteSdp: SDP.SessionDescription,
+            localSdp: SDP.SessionDescription
+        ): Promise<boolean> => {
+            const { result } = await channel.request<
+                { remoteSdp: SDP.SessionDescription, localSdp: SDP.SessionDescription },
+                { result: boolean }
+            >({ remoteSdp, localSdp });
+
+            return result;
+        };
+
+        // Pass across the name from the real callback, for explain()
+        Object.defineProperty(rpcCallback, 'name', { value: name });
+
+        return new SdpCallbackMatcher(rpcCallback);
+    }
+
+}
+
+export class MetadataMatcherImpl extends MetadataMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        const value = connection.metadata[this.key];
+
+        if (this.regexSource !== undefined) {
+            return typeof value === 'string' &&
+                new RegExp(this.regexSource, this.regexFlags).test(value);
+        } else {
+            return matchesJsonSubset(value, this.value);
+        }
+    }
+
+}
+
+export class MetadataSubsetMatcherImpl extends MetadataSubsetMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        return matchesJsonSubset(connection.metadata, this.metadataSubset);
+    }
+
+}
+
+export class AnyOfMatcherImpl extends AnyOfMatcher {
+
+    private matcherImpls!: MatcherImpl[];
+
+    buildNestedMatchers(matcherLookup: MatcherImplLookup) {
+        this.matcherImpls = this.matchers.map((definition) => buildMatcherImpl(definition, matcherLookup));
+    }
+
+    async matches(connection: RTCConnection, context: MatchingContext): Promise<boolean> {
+        for (const matcher of this.matcherImpls) {
+            if (await matcher.matches(connection, context)) return true;
+        }
+        return false;
+    }
+
+    static deserialize(data: {
+        matchers: Array<SerializedValue<MatcherDefinition>>
+    }, channel: ClientServerChannel, options: unknown): AnyOfMatcher {
+        return new AnyOfMatcher(data.matchers.map((matcherData, i) =>
+            deserializeMatcher(matcherData, scopeChannel(channel, `${i}`), options)
+        ));
+    }
+
+}
+
+export class AllOfMatcherImpl extends AllOfMatcher {
+
+    private matcherImpls!: MatcherImpl[];
+
+    buildNestedMatchers(matcherLookup: MatcherImplLookup) {
+        this.matcherImpls = this.matchers.map((definition) => buildMatcherImpl(definition, matcherLookup));
+    }
+
+    async matches(connection: RTCConnection, context: MatchingContext): Promise<boolean> {
+        for (const matcher of this.matcherImpls) {
+            if (!await matcher.matches(connection, context)) return false;
+        }
+        return true;
+    }
+
+    static deserialize(data: {
+        matchers: Array<SerializedValue<MatcherDefinition>>
+    }, channel: ClientServerChannel, options: unknown): AllOfMatcher {
+        return new AllOfMatcher(data.matchers.map((matcherData, i) =>
+            deserializeMatcher(matcherData, scopeChannel(channel, `${i}`), options)
+        ));
+    }
+
+}
+
+export class NotMatcherImpl extends NotMatcher {
+
+    private matcherImpl!: MatcherImpl;
+
+    buildNestedMatchers(matcherLookup: MatcherImplLookup) {
+        this.matcherImpl = buildMatcherImpl(this.matcher, matcherLookup);
+    }
+
+    async matches(connection: RTCConnection, context: MatchingContext): Promise<boolean> {
+        return !await this.matcherImpl.matches(connection, context);
+    }
+
+    static deserialize(data: {
+        matcher: SerializedValue<MatcherDefinition>
+    }, channel: ClientServerChannel, options: unknown): NotMatcher {
+        return new NotMatcher(
+            deserializeMatcher(data.matcher, scopeChannel(channel, '0'), options)
+        );
+    }
+
+}
+
+export const MatcherLookup: typeof MatcherDefinitionLookup & MatcherImplLookup = {
     'has-rtc-data-channel': HasDataChannelMatcherImpl,
     'has-rtc-video-track': HasVideoTrackMatcherImpl,
     'has-rtc-audio-track': HasAudioTrackMatcherImpl,
     'has-rtc-media-track': HasMediaTrackMatcherImpl,
     'rtc-page-hostname': HostnameMatcherImpl,
     'rtc-page-regex': UrlRegexMatcherImpl,
-    'rtc-user-agent-regex': UserAgentRegexMatcherImpl
+    'rtc-user-agent-regex': UserAgentRegexMatcherImpl,
+    'rtc-selected-candidate-type': SelectedCandidateTypeMatcherImpl,
+    'rtc-channel-label': ChannelLabelMatcherImpl,
+    'rtc-channel-protocol': ChannelProtocolMatcherImpl,
+    'rtc-first-message': FirstMessageMatcherImpl,
+    'rtc-codec': CodecMatcherImpl,
+    'rtc-simulcast': SimulcastMatcherImpl,
+    'rtc-header-extension': HeaderExtensionMatcherImpl,
+    'rtc-media-direction': MediaDirectionMatcherImpl,
+    'rtc-sdp-callback': SdpCallbackMatcherImpl,
+    'rtc-metadata': MetadataMatcherImpl,
+    'rtc-metadata-subset': MetadataSubsetMatcherImpl,
+    'rtc-any-of': AnyOfMatcherImpl,
+    'rtc-all-of': AllOfMatcherImpl,
+    'rtc-not': NotMatcherImpl
 };
\ No newline at end of file
@@ -7,9 +7,11 @@ import {
     MockRTC,
     MockRTCEventData,
     MockRTCPeerBuilder,
-    MockRTCRuleDefinition
+    MockRTCRule,
+    MockRTCRuleDefinition,
+    MockRTCRuleOptions
 } from "./mockrtc";
-import { MockRTCPeer } from "./mockrtc-peer";
+import { MockRTCPeer, MockRTCPeerOptions } from "./mockrtc-peer";
 import { MockRTCHandlerBuilder } from "./handling/handler-builder";
 import { HandlerStepDefinition } from "./handling/handler-step-definitions";
 import { MatcherDefinition } from "./matching/matcher-definitions";
@@ -25,12 +27,15 @@ export abstract class MockRTCBase implements MockRTC {
         callback: (param: MockRTCEventData[E]) => void
     ): Promise<void>;
 
-    buildPeer(): MockRTCPeerBuilder {
-        return new MockRTCHandlerBuilder(this.buildPeerFromDefinition.bind(this));
+    buildPeer(options?: MockRTCPeerOptions): MockRTCPeerBuilder {
+        return new MockRTCHandlerBuilder((handlerStepDefinitions) =>
+            this.buildPeerFromDefinition(handlerStepDefinitions, options)
+        );
     }
 
     abstract buildPeerFromDefinition(
-        handlerStepDefinitions: HandlerStepDefinition[]
+        handlerStepDefinitions: HandlerStepDefinition[],
+        options?: MockRTCPeerOptions
     ): Promise<MockRTCPeer>;
 
     forConnections(): MockRTCRuleBuilder {
@@ -39,11 +44,14 @@ export abstract class MockRTCBase implements MockRTC {
 
     abstract addRuleFromDefinition(
         matcherDefinitions: MatcherDefinition[],
-        handlerStepDefinitions: HandlerStepDefinition[]
+        handlerStepDefinitions: HandlerStepDefinition[],
+        options?: MockRTCRuleOptions
     ): Promise<void>;
 
     abstract setRulesFromDefinitions(
         ruleDefinitions: Array<MockRTCRuleDefinition>
     ): Promise<void>;
 
+    abstract getRules(): Promise<MockRTCRule[]>;
+
 }
\ No newline at end of file
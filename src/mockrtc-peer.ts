@@ -3,11 +3,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { MockRTCSessionDescription } from './mockrtc';
+import {
+    MediaRecordingOptions,
+    MockRTCSessionDescription,
+    RTCConnectionOptions,
+    RTCIceServerOptions
+} from './mockrtc';
+import type { MessageDirection } from './handling/handler-step-definitions';
 
 export interface MockRTCPeerOptions {
     debug?: boolean;
     recordMessages?: boolean;
+    recordMedia?: MediaRecordingOptions;
+    connectionOptions?: RTCConnectionOptions;
 }
 
 /**
@@ -95,6 +103,38 @@ export interface MockRTCPeer {
      * peer has received on all connections.
      */
     getMessagesOnChannel(channelName: string): Promise<Array<string | Buffer>>;
+
+    /**
+     * Retrieve the ICE servers used by this peer's connections, in the same format as the
+     * browser's `RTCIceServer`. This includes the embedded TURN server, if enabled, and is
+     * used by hooked connections to automatically use the same servers.
+     */
+    getIceServers(): Promise<RTCIceServerOptions[]>;
+
+    /**
+     * Get the URL of a WHIP endpoint for this peer. WHIP clients can POST an SDP offer
+     * here to connect to this peer, and then use the returned session URL for trickle
+     * ICE (PATCH) and to close the connection (DELETE).
+     */
+    getWhipUrl(): Promise<string>;
+
+    /**
+     * Get the URL of a WHEP endpoint for this peer. This works exactly like the WHIP
+     * endpoint, but for WHEP players, which will typically expect this peer to send
+     * them media, e.g. with {@link MockRTCHandlerBuilder.playMedia playMedia}.
+     */
+    getWhepUrl(): Promise<string>;
+
+    /**
+     * Get the URL of a WebSocket signalling endpoint for this peer. Each WebSocket
+     * connected here creates a new session with this peer, negotiated using simple JSON
+     * offer, answer & candidate messages.
+     *
+     * The full protocol is documented at {@link WebSocketSignallingMessage}. For apps
+     * with their own signalling that use multiple rooms, the room name can be used in
+     * place of the peer id in this URL to connect to the matching peer instead.
+     */
+    getWebSocketSignallingUrl(): Promise<string>;
 }
 
 /**
@@ -125,6 +165,100 @@ export interface MockRTCSession {
      * Get an answer given an offer from elsewhere, to renegotiate the existing connection.
      */
     answerOffer(offer: RTCSessionDescriptionInit, options?: AnswerOptions): Promise<MockRTCSessionDescription>;
+
+    /**
+     * Add an ICE candidate from the remote peer, as trickled by the remote peer after the
+     * offer or answer. A null or empty candidate signals the end of the remote candidates.
+     */
+    addIceCandidate(candidate: RTCIceCandidateInit | null): Promise<void>;
+
+    /**
+     * Subscribe to the local ICE candidates for this session, to trickle them to the remote
+     * peer. The callback is called immediately with all candidates gathered so far, and then
+     * with each new candidate as it's gathered. Each round of gathering ends with a null
+     * candidate, as in the browser APIs.
+     */
+    onLocalIceCandidate(callback: (candidate: RTCIceCandidateInit | null) => void): Promise<void>;
+
+    /**
+     * Change the simulated network conditions for all traffic sent by this session, replacing any
+     * conditions previously set. Pass an empty object to remove all impairments.
+     *
+     * When this session is proxying traffic, the conditions apply to traffic in both directions.
+     */
+    setNetworkConditions(conditions: NetworkConditions): Promise<void>;
+
+    /**
+     * Inject a message into a data channel of a live proxied session, as if it had been sent
+     * by one of the two peers: 'to-remote' sends the message to the remote peer, as if from
+     * the mocked peer, while 'to-local' sends it to the mocked peer, as if from the remote peer.
+     *
+     * This is only supported for mock sessions (not external sessions), and sending messages
+     * 'to-remote' requires the session to be proxying traffic to a remote peer.
+     */
+    injectMessage(options: InjectMessageOptions): Promise<void>;
+
+    /**
+     * Release a proxied message held by a message breakpoint, forwarding it on to its destination.
+     *
+     * If a message is provided, it's forwarded in place of the original held message. Messages
+     * are identified by the id from the corresponding `data-channel-message-held` event.
+     */
+    resumeMessage(messageId: string, message?: string | Buffer): Promise<void>;
+
+    /**
+     * Release a proxied message held by a message breakpoint, dropping it entirely so that it's
+     * never forwarded to its destination.
+     */
+    dropMessage(messageId: string): Promise<void>;
+}
+
+export interface InjectMessageOptions {
+    direction: MessageDirection;
+
+    /**
+     * The label of the data channel to send the message on.
+     */
+    channel: string;
+
+    message: string | Buffer;
+}
+
+/**
+ * A set of simulated network conditions, applied to all data channel messages and media packets
+ * sent by a connection.
+ *
+ * Data channels are treated as reliable & ordered (as they are by default): messages are never
+ * dropped or reordered, and lost messages are instead delayed, as if they were retransmitted.
+ */
+export interface NetworkConditions {
+    /**
+     * The fixed delay, in milliseconds, added to every packet.
+     */
+    latencyMs?: number;
+
+    /**
+     * The maximum random variation, in milliseconds, added to or subtracted from the latency
+     * of each packet.
+     */
+    jitterMs?: number;
+
+    /**
+     * The probability (between 0 and 1) that any given packet is lost.
+     */
+    lossRate?: number;
+
+    /**
+     * The probability (between 0 and 1) that any given media packet is held back, so that
+     * later packets arrive before it.
+     */
+    reorderRate?: number;
+
+    /**
+     * The maximum bandwidth in kilobits per second. Packets beyond this are queued, and media
+     * packets are dropped if the queue grows too long.
+     */
+    kbps?: number;
 }
 
 export interface MockRTCOfferParams {
@@ -156,6 +290,14 @@ export interface OfferOptions {
      */
     addDataStream?: boolean;
 
+    /**
+     * If set, the description is returned as soon as ICE gathering has started, rather than
+     * waiting until gathering is complete, and so may include only some or none of the local
+     * ICE candidates. The remaining candidates are available from the session's
+     * `onLocalIceCandidate` method, to be trickled to the remote peer as they're gathered.
+     */
+    trickleIce?: boolean;
+
     /**
      * Extra metadata to associate with the connection. This will be exposed on
      * events like peer-connected, and can be used to add context to connections.
@@ -174,6 +316,16 @@ export interface AnswerOptions {
      */
     mirrorSDP?: string;
 
+    /**
+     * If set, the description is returned as soon as ICE gathering has started, rather than
+     * waiting until gathering is complete, and so may include only some or none of the local
+     * ICE candidates. The remaining candidates are available from the session's
+     * `onLocalIceCandidate` method, to be trickled to the remote peer as they're gathered.
+     *
+     * This option has no effect if mirrorSDP is set.
+     */
+    trickleIce?: boolean;
+
     /**
      * Extra metadata to associate with the connection. This will be exposed on
      * events like peer-connected, and can be used to add context to connections.
@@ -4,9 +4,10 @@
  */
 
 import type { MockRTCHandlerBuilder } from "./handling/handler-builder";
-import { HandlerStepDefinition } from "./handling/handler-step-definitions";
+import { HandlerStepDefinition, MessageDirection } from "./handling/handler-step-definitions";
 import { MatcherDefinition } from "./matching/matcher-definitions";
-import type { ConnectionMetadata, MockRTCPeer } from "./mockrtc-peer";
+import type { CompletionCheckerDefinition } from "./matching/completion-checkers";
+import type { ConnectionMetadata, MockRTCPeer, MockRTCPeerOptions } from "./mockrtc-peer";
 import { MockRTCRuleBuilder } from "./rule-builder";
 
 export interface MockRTCPeerBuilder extends MockRTCHandlerBuilder<MockRTCPeer> {}
@@ -26,6 +27,167 @@ export interface MockRTCOptions {
      * Defaults to false.
      */
     recordMessages?: boolean;
+
+    /**
+     * If set, all media received on every connection will be recorded to files in the
+     * given directory on the MockRTC server's machine, named by session id and track mid.
+     *
+     * Defaults to undefined (no recording).
+     */
+    recordMedia?: MediaRecordingOptions;
+
+    /**
+     * Network configuration for the WebRTC connections created by MockRTC, such as
+     * the ICE servers to use and the ports & addresses to bind to. This applies to
+     * all peers, but can be overridden for individual peers via `buildPeer(options)`.
+     *
+     * Defaults to no ICE servers, binding to any address and port, with UDP-only ICE.
+     */
+    connectionOptions?: RTCConnectionOptions;
+
+    /**
+     * If set, an embedded STUN/TURN server is started alongside the mock session. All
+     * mock peers will use it automatically, and hooked pages will be configured to use it
+     * too, so that relayed connections can be tested entirely offline. Use `true` to start
+     * the server with the default options, or pass options to configure it.
+     *
+     * Defaults to false.
+     */
+    turnServer?: boolean | EmbeddedTurnServerOptions;
+
+    /**
+     * Configuration for the HTTP server that exposes signalling endpoints for mock peers,
+     * such as WHIP & WHEP. This server is only started when a peer's signalling URL is
+     * first requested.
+     *
+     * Defaults to listening on a random available port on 127.0.0.1.
+     */
+    signallingServer?: SignallingServerOptions;
+
+    /**
+     * How connections to the matching peer should be handled when they don't match any
+     * defined rules. This can be:
+     *
+     * - `'proxy'`: the connection is accepted, and proxied dynamically to any external
+     *   peer that is later attached, or otherwise ignored.
+     * - `'close'`: the connection is closed immediately.
+     * - `'reject'`: the connection is closed immediately, and treated as an error, emitting
+     *   a `connection-rejected` event.
+     * - An array of step definitions, which will be run for every unmatched connection.
+     *
+     * In every case, a `connection-unmatched` event is emitted for each unmatched connection.
+     *
+     * Defaults to `'proxy'`.
+     */
+    unmatchedConnections?: 'proxy' | 'close' | 'reject' | HandlerStepDefinition[];
+
+    /**
+     * The maximum time to wait for data channel activity, in milliseconds, when matching
+     * connections with rules that depend on it (e.g. `withChannelLabel()`). If the expected
+     * activity doesn't happen within this time, those matchers don't match the connection,
+     * so connections that don't match such a rule may wait this long to match a later rule.
+     *
+     * Defaults to 5000 (5 seconds).
+     */
+    ruleMatchingTimeout?: number;
+}
+
+export interface SignallingServerOptions {
+    /**
+     * The port to listen on. Defaults to a random available port.
+     */
+    port?: number;
+
+    /**
+     * The address to listen on. Defaults to 127.0.0.1.
+     */
+    bindAddress?: string;
+}
+
+export interface EmbeddedTurnServerOptions {
+    /**
+     * The UDP port to listen on. Defaults to a random available port.
+     */
+    port?: number;
+
+    /**
+     * The address to listen on, which is also used for relayed ports. Defaults to 127.0.0.1.
+     */
+    bindAddress?: string;
+
+    /**
+     * The credentials clients must use for TURN allocations. Both default to 'mockrtc'.
+     */
+    username?: string;
+    password?: string;
+
+    /**
+     * The range of ports (inclusive) to use for relayed addresses. Defaults to 49152 - 65535.
+     */
+    relayPortRange?: { min: number, max: number };
+}
+
+export interface RTCConnectionOptions {
+    /**
+     * The STUN and/or TURN servers to use when gathering ICE candidates. Each server can
+     * be either a URL string like `stun:stun.example.com:3478` or an object in the same
+     * format as the browser's `RTCIceServer`.
+     *
+     * Defaults to none, in which case only host candidates are gathered.
+     */
+    iceServers?: Array<string | RTCIceServerOptions>;
+
+    /**
+     * Restrict the candidates used to only relayed (TURN) candidates. Defaults to 'all'.
+     */
+    iceTransportPolicy?: 'all' | 'relay';
+
+    /**
+     * The range of local ports (inclusive) to bind to when gathering candidates. Defaults
+     * to any available port.
+     */
+    portRange?: { min: number, max: number };
+
+    /**
+     * The local address to bind to when gathering candidates. Defaults to all addresses.
+     */
+    bindAddress?: string;
+
+    /**
+     * Whether to gather ICE-TCP candidates, in addition to UDP candidates. Defaults to false.
+     */
+    enableIceTcp?: boolean;
+
+    /**
+     * The MTU to use for outgoing packets, in bytes. Defaults to automatic path MTU discovery.
+     */
+    mtu?: number;
+
+    /**
+     * The maximum data channel message size to advertise & accept, in bytes. Defaults to
+     * 256KiB.
+     */
+    maxMessageSize?: number;
+}
+
+export interface RTCIceServerOptions {
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+}
+
+export interface MediaRecordingOptions {
+    /**
+     * The directory where recordings should be written. Created if it doesn't already exist.
+     */
+    directory: string;
+
+    /**
+     * The format of the recordings. 'media' (the default) depacketizes received media and writes
+     * VP8, VP9 & H264 video to IVF files and Opus audio to Ogg files. 'pcap' writes the raw RTP
+     * packets received on each track to a pcap file, for inspection with tools like Wireshark.
+     */
+    format?: 'media' | 'pcap';
 }
 
 export interface MockRTCSessionDescription {
@@ -117,6 +279,30 @@ export type MockRTCEventData = {
         eventTimestamp: number;
         timingEvents: TimingEvents;
     },
+    "data-channel-message-held": {
+        peerId: string;
+        sessionId: string;
+        messageId: string;
+        channelLabel: string;
+        direction: MessageDirection;
+        content: Buffer;
+        isBinary: boolean;
+
+        eventTimestamp: number;
+        timingEvents: TimingEvents;
+    },
+    "data-channel-message-transform-failed": {
+        peerId: string;
+        sessionId: string;
+        channelLabel: string;
+        direction: MessageDirection;
+        content: Buffer;
+        isBinary: boolean;
+        errorMessage: string;
+
+        eventTimestamp: number;
+        timingEvents: TimingEvents;
+    },
     "data-channel-closed": {
         peerId: string;
         sessionId: string;
@@ -153,16 +339,104 @@ export type MockRTCEventData = {
 
         eventTimestamp: number;
         timingEvents: TimingEvents;
+    },
+    "media-recording-completed": {
+        peerId: string;
+        sessionId: string;
+        trackMid: string;
+        filePath: string;
+        frameCount: number; // The number of packets, for pcap recordings
+
+        eventTimestamp: number;
+    },
+    "media-recording-failed": {
+        peerId: string;
+        sessionId: string;
+        trackMid: string;
+        errorMessage: string;
+
+        eventTimestamp: number;
+    },
+    "connection-unmatched": {
+        peerId: string;
+        sessionId: string;
+        metadata: ConnectionMetadata;
+        localSessionDescription: MockRTCSessionDescription;
+        remoteSessionDescription: MockRTCSessionDescription;
+
+        eventTimestamp: number;
+    },
+    "connection-rejected": {
+        peerId: string;
+        sessionId: string;
+        metadata: ConnectionMetadata;
+        errorMessage: string;
+
+        eventTimestamp: number;
+    },
+    "relay-allocated": {
+        username: string;
+        clientAddress: string;
+        clientPort: number;
+        relayAddress: string;
+        relayPort: number;
+        lifetime: number; // Seconds
+
+        eventTimestamp: number;
     }
 };
 
 export type MockRTCEvent = keyof MockRTCEventData;
 
-export type MockRTCRuleDefinition = {
+export type MockRTCRuleOptions = {
+    /**
+     * A unique id for the rule. Generated automatically if not provided.
+     */
+    id?: string;
+
+    /**
+     * The priority of the rule. Matching rules with higher priorities are always used before
+     * those with lower priorities. Defaults to 0.
+     */
+    priority?: number;
+
+    /**
+     * How many connections the rule should handle. If not set, the rule will be used once,
+     * and then will continue to be used only if no later matching rules are available.
+     */
+    completionChecker?: CompletionCheckerDefinition;
+};
+
+export type MockRTCRuleDefinition = MockRTCRuleOptions & {
     matchers: MatcherDefinition[];
     steps: HandlerStepDefinition[];
 };
 
+/**
+ * The current state of a defined rule.
+ */
+export interface MockRTCRule {
+    readonly id: string;
+    readonly priority: number;
+
+    /**
+     * A human-readable explanation of the rule's matchers, steps and completion state.
+     */
+    readonly explanation: string;
+
+    /**
+     * The number of connections that have been handled by this rule so far.
+     */
+    readonly hitCount: number;
+
+    /**
+     * Whether the rule is still waiting for connections. This is true until the rule has
+     * handled as many connections as its completion checker requires (or one connection,
+     * if it has no completion checker). Rules using `.always()` are always pending.
+     */
+    isPending(): boolean;
+}
+
 export interface MockRTC {
 
     /**
@@ -177,8 +451,11 @@ export interface MockRTC {
      * To instead define multiple behaviours that match different conditions, and
      * then connect clients who may each see different behaviour, define your
      * rules using the `forX()` methods, and connect by using `getMatchingPeer()`.
+     *
+     * Options can be provided to override the MockRTC-wide options for this peer
+     * alone, for example to use different connection options.
      */
-    buildPeer(): MockRTCPeerBuilder;
+    buildPeer(options?: MockRTCPeerOptions): MockRTCPeerBuilder;
 
     /**
      * Starting defining a mock WebRTC rule. This methods returns a rule builder,
@@ -228,10 +505,17 @@ export interface MockRTC {
      * - `data-channel-opened`
      * - `data-channel-message-sent`
      * - `data-channel-message-received`
+     * - `data-channel-message-held`
+     * - `data-channel-message-transform-failed`
      * - `data-channel-closed`
      * - `media-track-opened`
      * - `media-track-stats`
      * - `media-track-closed`
+     * - `media-recording-completed` (only when media recording is enabled)
+     * - `media-recording-failed` (only when media recording is enabled)
+     * - `connection-unmatched`
+     * - `connection-rejected` (only when unmatched connections are rejected)
+     * - `relay-allocated` (only when the embedded TURN server is enabled)
      */
     on<E extends MockRTCEvent>(event: E, callback: (param: MockRTCEventData[E]) => void): Promise<void>;
 
@@ -243,7 +527,8 @@ export interface MockRTC {
      * preferable otherwise.
      */
     buildPeerFromDefinition(
-        handlerStepDefinitions: HandlerStepDefinition[]
+        handlerStepDefinitions: HandlerStepDefinition[],
+        options?: MockRTCPeerOptions
     ): Promise<MockRTCPeer>;
 
     /**
@@ -255,7 +540,8 @@ export interface MockRTC {
      */
     addRuleFromDefinition(
         matcherDefinitions: MatcherDefinition[],
-        handlerStepDefinitions: HandlerStepDefinition[]
+        handlerStepDefinitions: HandlerStepDefinition[],
+        options?: MockRTCRuleOptions
     ): Promise<void>;
 
     /**
@@ -267,4 +553,13 @@ export interface MockRTC {
      */
     setRulesFromDefinitions(rules: Array<MockRTCRuleDefinition>): Promise<void>;
 
+    /**
+     * Get the current state of all defined rules, including how many connections each
+     * has handled, and whether they're still pending. This is useful to assert that
+     * every expected connection has actually happened.
+     *
+     * The returned rules are a snapshot, and will not update as more connections arrive.
+     */
+    getRules(): Promise<MockRTCRule[]>;
+
 }
\ No newline at end of file
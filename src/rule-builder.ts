@@ -4,7 +4,11 @@
  */
 
 import { MockRTCHandlerBuilder } from "./handling/handler-builder";
-import { HandlerStepDefinition } from "./handling/handler-step-definitions";
+import {
+    HandlerStepDefinition,
+    MessagePattern,
+    buildMessagePatternDefinition
+} from "./handling/handler-step-definitions";
 import {
     MatcherDefinition,
     HostnameMatcher,
@@ -13,8 +17,31 @@ import {
     HasAudioTrackMatcher,
     HasVideoTrackMatcher,
     HasMediaTrackMatcher,
-    HasDataChannelMatcher
+    HasDataChannelMatcher,
+    SelectedCandidateTypeMatcher,
+    ChannelLabelMatcher,
+    ChannelProtocolMatcher,
+    FirstMessageMatcher,
+    CodecMatcher,
+    SimulcastMatcher,
+    HeaderExtensionMatcher,
+    MediaDirection,
+    MediaDirectionMatcher,
+    SdpCallbackMatcher,
+    SdpMatcherCallback,
+    MetadataMatcher,
+    MetadataSubsetMatcher,
+    AnyOfMatcher,
+    AllOfMatcher,
+    NotMatcher
 } from "./matching/matcher-definitions";
+import {
+    CompletionCheckerDefinition,
+    Always,
+    Once,
+    NTimes
+} from "./matching/completion-checkers";
+import type { MockRTCRuleOptions } from "./mockrtc";
 
 export type RuleHandlerBuilder = MockRTCHandlerBuilder<void>;
 
@@ -28,11 +55,14 @@ export class MockRTCRuleBuilder implements Omit<RuleHandlerBuilder, 'handlerStep
     constructor(
         private addRuleCallback: (
             matcherDefinitions: MatcherDefinition[],
-            handlerStepDefinitions: HandlerStepDefinition[]
+            handlerStepDefinitions: HandlerStepDefinition[],
+            options: MockRTCRuleOptions
         ) => Promise<void>
     ) {}
 
     private matchers: MatcherDefinition[] = [];
+    private priority: number | undefined;
+    private completionChecker: CompletionCheckerDefinition | undefined;
 
     /**
      * Match RTC connections whose initial negotiation includes a data channel.
@@ -113,13 +143,269 @@ export class MockRTCRuleBuilder implements Omit<RuleHandlerBuilder, 'handlerStep
         return this;
     }
 
+    /**
+     * Match RTC connections where the selected candidate on either side of the connection
+     * has the given type, e.g. 'relay' to match connections that are relayed via a TURN
+     * server.
+     *
+     * @category Matcher
+     */
+    withSelectedCandidateType(candidateType: RTCIceCandidateType): this {
+        this.matchers.push(new SelectedCandidateTypeMatcher(candidateType));
+        return this;
+    }
+
+    /**
+     * Match RTC connections that open a data channel with the given label.
+     *
+     * Channels may not exist yet when the connection is first established, so rule
+     * selection waits until a data channel with this label is created, up to the
+     * configured `ruleMatchingTimeout`, or until the connection closes.
+     *
+     * @category Matcher
+     */
+    withChannelLabel(channelLabel: string): this {
+        this.matchers.push(new ChannelLabelMatcher(channelLabel));
+        return this;
+    }
+
+    /**
+     * Match RTC connections that open a data channel using the given sub-protocol.
+     *
+     * Channels may not exist yet when the connection is first established, so rule
+     * selection waits until a data channel using this protocol is created, up to the
+     * configured `ruleMatchingTimeout`, or until the connection closes.
+     *
+     * @category Matcher
+     */
+    withChannelProtocol(channelProtocol: string): this {
+        this.matchers.push(new ChannelProtocolMatcher(channelProtocol));
+        return this;
+    }
+
+    /**
+     * Match RTC connections where the first data channel message received matches the
+     * given pattern. The pattern can be either a regular expression, to match against the
+     * message content as a string, or an object, which matches messages containing JSON
+     * that includes all the given properties.
+     *
+     * Rule selection waits until the first message is received (up to the configured
+     * `ruleMatchingTimeout`). The message is not consumed, so the rule's steps will still
+     * receive it, e.g. in a `waitForNextMessage()` step.
+     *
+     * @category Matcher
+     */
+    withFirstMessageMatching(pattern: MessagePattern): this {
+        this.matchers.push(new FirstMessageMatcher(buildMessagePatternDefinition(pattern)));
+        return this;
+    }
+
+    /**
+     * Match RTC connections where the given video codec (e.g. 'H264' or 'VP8') was
+     * negotiated, compared case-insensitively.
+     *
+     * Browsers usually offer many codecs, so this checks the codec that's actually used:
+     * the first codec in the answer's order of preference that's also in the offer. For
+     * example, a typical Chrome offer prefers VP8, and so matches 'VP8', not 'H264'.
+     *
+     * @category Matcher
+     */
+    withVideoCodec(codec: string): this {
+        this.matchers.push(new CodecMatcher('video', codec));
+        return this;
+    }
+
+    /**
+     * Match RTC connections where the given audio codec (e.g. 'opus') was negotiated,
+     * compared case-insensitively, as in {@link MockRTCRuleBuilder.withVideoCodec withVideoCodec}.
+     *
+     * @category Matcher
+     */
+    withAudioCodec(codec: string): this {
+        this.matchers.push(new CodecMatcher('audio', codec));
+        return this;
+    }
+
+    /**
+     * Match RTC connections where the remote peer's SDP includes simulcast media, i.e. a
+     * simulcast attribute or RTP stream ids (rids) on any media track.
+     *
+     * @category Matcher
+     */
+    withSimulcast(): this {
+        this.matchers.push(new SimulcastMatcher());
+        return this;
+    }
+
+    /**
+     * Match RTC connections where the remote peer's SDP includes the given RTP header
+     * extension URI on any media track, e.g. 'urn:ietf:params:rtp-hdrext:sdes:mid'.
+     *
+     * @category Matcher
+     */
+    withHeaderExtension(extensionUri: string): this {
+        this.matchers.push(new HeaderExtensionMatcher(extensionUri));
+        return this;
+    }
+
+    /**
+     * Match RTC connections where any media track in the remote peer's SDP has the given
+     * direction, from the remote peer's point of view. For example, 'recvonly' matches
+     * remote peers that want to receive media without sending any.
+     *
+     * @category Matcher
+     */
+    withMediaDirection(direction: MediaDirection): this {
+        this.matchers.push(new MediaDirectionMatcher(direction));
+        return this;
+    }
+
+    /**
+     * Match RTC connections using a callback, which is given the parsed SDP of the remote
+     * peer and the parsed SDP of the mock peer, as returned by the sdp-transform package.
+     * The callback should return (or resolve to) true for connections that should match.
+     *
+     * When used with a remote MockRTC server, the callback runs in the client, and is
+     * called for each connection over the admin connection.
+     *
+     * @category Matcher
+     */
+    withSdpMatching(callback: SdpMatcherCallback): this {
+        this.matchers.push(new SdpCallbackMatcher(callback));
+        return this;
+    }
+
+    /**
+     * Match RTC connections with the given connection metadata value. The value can be
+     * a regular expression, to match string values, or any JSON value, where objects
+     * match any metadata value including all the given properties.
+     *
+     * Metadata can be added to connections automatically, by passing extra metadata to
+     * the `hookAllWebRTC` or `hookWebRTCConnection` methods, or manually (by providing
+     * `connectionMetadata: { ... }` options when creating an offer or answer).
+     *
+     * @category Matcher
+     */
+    withMetadata(key: string, value: RegExp | string | number | boolean | null | {}): this {
+        this.matchers.push(new MetadataMatcher(key, value));
+        return this;
+    }
+
+    /**
+     * Match RTC connections whose connection metadata includes all the properties of the
+     * given object, recursively, e.g. `{ testName: 'login test', tenant: { id: 123 } }`.
+     *
+     * @category Matcher
+     */
+    withMetadataMatching(metadataSubset: {}): this {
+        this.matchers.push(new MetadataSubsetMatcher(metadataSubset));
+        return this;
+    }
+
+    /**
+     * Match RTC connections that match any of the given matcher definitions. Matchers are
+     * checked in order, and checking stops at the first matcher that matches.
+     *
+     * Matcher definitions can be created using the classes exported in `matchers`, e.g.
+     * `new matchers.HostnameMatcher('example.com')`.
+     *
+     * @category Matcher
+     */
+    withAnyOf(matchers: MatcherDefinition[]): this {
+        this.matchers.push(new AnyOfMatcher(matchers));
+        return this;
+    }
+
+    /**
+     * Match RTC connections that match all of the given matcher definitions. This is the
+     * same as adding each matcher to the rule directly, but is useful to group matchers
+     * within other combinations, e.g. within `withAnyOf()`.
+     *
+     * @category Matcher
+     */
+    withAllOf(matchers: MatcherDefinition[]): this {
+        this.matchers.push(new AllOfMatcher(matchers));
+        return this;
+    }
+
+    /**
+     * Match RTC connections that do not match the given matcher definition, e.g.
+     * `withNot(new matchers.HostnameMatcher('staging.example.com'))`.
+     *
+     * @category Matcher
+     */
+    withNot(matcher: MatcherDefinition): this {
+        this.matchers.push(new NotMatcher(matcher));
+        return this;
+    }
+
+    /**
+     * Match RTC connections using an existing matcher definition. This is useful for
+     * custom matchers, which have a corresponding implementation registered with the
+     * MockRTC server.
+     *
+     * @category Matcher
+     */
+    withMatcher(matcher: MatcherDefinition): this {
+        this.matchers.push(matcher);
+        return this;
+    }
+
+    /**
+     * Use this rule for every matching connection, instead of only until a later
+     * matching rule is available.
+     *
+     * @category Completion
+     */
+    always(): this {
+        this.completionChecker = new Always();
+        return this;
+    }
+
+    /**
+     * Use this rule for only the first matching connection. Later matching connections
+     * will skip this rule, and fall through to later rules.
+     *
+     * @category Completion
+     */
+    once(): this {
+        this.completionChecker = new Once();
+        return this;
+    }
+
+    /**
+     * Use this rule for only the first n matching connections. Later matching connections
+     * will skip this rule, and fall through to later rules.
+     *
+     * @category Completion
+     */
+    times(n: number): this {
+        this.completionChecker = new NTimes(n);
+        return this;
+    }
+
+    /**
+     * Set the priority of this rule. Matching rules with higher priorities are always
+     * used before those with lower priorities, regardless of the order they were
+     * defined in. Rules have a default priority of 0.
+     *
+     * @category Completion
+     */
+    asPriority(priority: number): this {
+        this.priority = priority;
+        return this;
+    }
+
     // For all handler methods, return a handler builder - i.e. once you start calling
     // any of these step-definition methods, you can't keep calling matcher methods:
     private buildDefinitionMethod = <K extends keyof RuleHandlerBuilder>(
         methodName: K
     ) => ((...args: any[]) => {
         const handlerBuilder = new MockRTCHandlerBuilder(
-            (steps) => this.addRuleCallback(this.matchers, steps)
+            (steps) => this.addRuleCallback(this.matchers, steps, {
+                priority: this.priority,
+                completionChecker: this.completionChecker
+            })
         );
 
         return (handlerBuilder as any)[methodName](...args);
@@ -133,10 +419,23 @@ export class MockRTCRuleBuilder implements Omit<RuleHandlerBuilder, 'handlerStep
     waitForNextMessageOnChannel = this.buildDefinitionMethod('waitForNextMessageOnChannel');
     createDataChannel = this.buildDefinitionMethod('createDataChannel');
     send = this.buildDefinitionMethod('send');
+    playMedia = this.buildDefinitionMethod('playMedia');
+    addTrack = this.buildDefinitionMethod('addTrack');
+    removeTrack = this.buildDefinitionMethod('removeTrack');
+    withNetworkConditions = this.buildDefinitionMethod('withNetworkConditions');
+    transformMessages = this.buildDefinitionMethod('transformMessages');
+    breakOnMessages = this.buildDefinitionMethod('breakOnMessages');
+    routeChannel = this.buildDefinitionMethod('routeChannel');
+    ifMessageMatches = this.buildDefinitionMethod('ifMessageMatches');
+    addStep = this.buildDefinitionMethod('addStep');
     thenClose = this.buildDefinitionMethod('thenClose');
     thenSend = this.buildDefinitionMethod('thenSend');
     thenEcho = this.buildDefinitionMethod('thenEcho');
+    thenReplyTo = this.buildDefinitionMethod('thenReplyTo');
+    thenReply = this.buildDefinitionMethod('thenReply');
+    thenCallback = this.buildDefinitionMethod('thenCallback');
     thenForwardTo = this.buildDefinitionMethod('thenForwardTo');
     thenPassThrough = this.buildDefinitionMethod('thenPassThrough');
+    thenStep = this.buildDefinitionMethod('thenStep');
 
 }
\ No newline at end of file
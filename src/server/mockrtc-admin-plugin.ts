@@ -4,18 +4,26 @@
  */
 
 import * as stream from 'stream';
+import { EventEmitter, on } from 'events';
 import { gql } from 'graphql-tag';
 import { PluggableAdmin } from 'mockttp';
 import type { IResolvers } from "@graphql-tools/utils";
 import { PubSub } from "graphql-subscriptions";
 
-import { StepLookup } from '../handling/handler-step-impls';
+import {
+    MessageDirection,
+    SerializedMessage,
+    deserializeMessage
+} from '../handling/handler-step-definitions';
 
 import { MockRTCOptions, MockRTCSessionDescription } from '../mockrtc';
-import { MockRTCServer } from './mockrtc-server';
-import { AnswerOptions, OfferOptions } from '../mockrtc-peer';
+import { MockRTCExtensions, MockRTCServer } from './mockrtc-server';
+import { AnswerOptions, MockRTCPeerOptions, NetworkConditions, OfferOptions } from '../mockrtc-peer';
 import { MatcherDefinition } from '../matching/matcher-definitions';
-import { MatcherLookup } from '../matching/matcher-impls';
+import {
+    CompletionCheckerDefinition,
+    CompletionCheckerLookup
+} from '../matching/completion-checkers';
 import { HandlerStepDefinition } from '../handling/handler-step-definitions';
 
 function kebabToCamel(str: string) {
@@ -25,6 +33,14 @@ function kebabToCamel(str: string) {
 const { deserialize } = PluggableAdmin.Serialization;
 type SerializedValue<T> = PluggableAdmin.Serialization.SerializedValue<T>;
 
+interface SerializedRuleData {
+    id?: string;
+    priority?: number;
+    completionChecker?: SerializedValue<CompletionCheckerDefinition>;
+    matchers: Array<SerializedValue<MatcherDefinition>>;
+    steps: Array<SerializedValue<HandlerStepDefinition>>;
+}
+
 export interface SessionData {
     id: string;
     description: MockRTCSessionDescription
@@ -37,18 +53,29 @@ const EVENTS = [
     'data-channel-opened',
     'data-channel-message-sent',
     'data-channel-message-received',
+    'data-channel-message-held',
+    'data-channel-message-transform-failed',
     'data-channel-closed',
     'media-track-opened',
     'media-track-stats',
-    'media-track-closed'
+    'media-track-closed',
+    'media-recording-completed',
+    'media-recording-failed',
+    'connection-unmatched',
+    'connection-rejected',
+    'relay-allocated'
 ] as const;
 
 export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOptions, {}> {
 
     private mockRTCServer!: MockRTCServer;
 
+    constructor(
+        private extensions: MockRTCExtensions = {}
+    ) {}
+
     start(options: MockRTCOptions) {
-        this.mockRTCServer = new MockRTCServer(options);
+        this.mockRTCServer = new MockRTCServer(options, this.extensions);
         return this.mockRTCServer.start();
     }
 
@@ -65,6 +92,7 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
             createPeer(data: RTCHandlerData!): MockedPeer!
             addRTCRule(data: RTCRuleData!): Void
             setRTCRules(data: [RTCRuleData!]!): Void
+            setUnmatchedConnectionSteps(steps: [Raw!]!): Void
 
             createOffer(peerId: ID!, sessionId: ID, options: Raw): Session!
             createExternalOffer(peerId: ID!, options: Raw): Session!
@@ -72,17 +100,47 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
 
             answerOffer(peerId: ID!, sessionId: ID, offer: SessionDescriptionInput!, options: Raw): Session!
             answerExternalOffer(peerId: ID!, offer: SessionDescriptionInput!, options: Raw): Session!
+
+            addIceCandidate(peerId: ID!, sessionId: ID!, candidate: Raw): Void
+
+            setNetworkConditions(peerId: ID!, sessionId: ID!, conditions: Raw!): Void
+            injectMessage(
+                peerId: ID!,
+                sessionId: ID!,
+                direction: String!,
+                channel: String!,
+                message: Raw!
+            ): Void
+            releaseHeldMessage(
+                peerId: ID!,
+                sessionId: ID!,
+                messageId: ID!,
+                action: String!,
+                message: Raw
+            ): Void
         }
 
         input RTCHandlerData {
             steps: [Raw!]!
+            options: Raw
         }
 
         input RTCRuleData {
+            id: ID
+            priority: Int
+            completionChecker: Raw
             matchers: [Raw!]!
             steps: [Raw!]!
         }
 
+        type RTCRule {
+            id: ID!
+            priority: Int!
+            explanation: String!
+            hitCount: Int!
+            pending: Boolean!
+        }
+
         type MockedPeer {
             peerId: ID!
         }
@@ -104,6 +162,9 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
 
         extend type Query {
             getSeenMessages(peerId: ID!, channelName: String): [Raw!]
+            getIceServers(peerId: ID!): [Raw!]!
+            getSignallingUrl(peerId: ID!, protocol: String!): String!
+            getRTCRules: [RTCRule!]!
         }
 
         scalar HandlerStep
@@ -116,11 +177,24 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
             dataChannelOpened: DataChannelOpenEvent!
             dataChannelMessageSent: DataChannelMessageEvent!
             dataChannelMessageReceived: DataChannelMessageEvent!
+            dataChannelMessageHeld: DataChannelMessageHeldEvent!
+            dataChannelMessageTransformFailed: DataChannelMessageTransformFailureEvent!
             dataChannelClosed: DataChannelCloseEvent!
 
             mediaTrackOpened: MediaTrackOpenEvent!
             mediaTrackStats: MediaTrackStatsEvent!
             mediaTrackClosed: MediaTrackCloseEvent!
+            mediaRecordingCompleted: MediaRecordingCompletionEvent!
+            mediaRecordingFailed: MediaRecordingFailureEvent!
+            connectionUnmatched: RTCUnmatchedConnectionEvent!
+            connectionRejected: RTCRejectedConnectionEvent!
+            relayAllocated: RelayAllocationEvent!
+
+            localIceCandidate(peerId: ID!, sessionId: ID!): RTCIceCandidateEvent!
+        }
+
+        type RTCIceCandidateEvent {
+            candidate: Raw
         }
 
         type RTCPeerConnectionEvent {
@@ -187,6 +261,32 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
             timingEvents: Raw!
         }
 
+        type DataChannelMessageHeldEvent {
+            peerId: ID!
+            sessionId: ID!
+            messageId: ID!
+            channelLabel: String!
+            direction: String!
+            content: Buffer!
+            isBinary: Boolean!
+
+            eventTimestamp: Float!
+            timingEvents: Raw!
+        }
+
+        type DataChannelMessageTransformFailureEvent {
+            peerId: ID!
+            sessionId: ID!
+            channelLabel: String!
+            direction: String!
+            content: Buffer!
+            isBinary: Boolean!
+            errorMessage: String!
+
+            eventTimestamp: Float!
+            timingEvents: Raw!
+        }
+
         type DataChannelCloseEvent {
             peerId: ID!
             sessionId: ID!
@@ -227,6 +327,57 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
             eventTimestamp: Float!
             timingEvents: Raw!
         }
+
+        type MediaRecordingCompletionEvent {
+            peerId: ID!
+            sessionId: ID!
+            trackMid: ID!
+            filePath: String!
+            frameCount: Int!
+
+            eventTimestamp: Float!
+        }
+
+        type MediaRecordingFailureEvent {
+            peerId: ID!
+            sessionId: ID!
+            trackMid: ID!
+            errorMessage: String!
+
+            eventTimestamp: Float!
+        }
+
+        type RTCUnmatchedConnectionEvent {
+            peerId: ID!
+            sessionId: ID!
+
+            metadata: Raw!
+            localSessionDescription: SessionDescriptionResult!
+            remoteSessionDescription: SessionDescriptionResult!
+
+            eventTimestamp: Float!
+        }
+
+        type RTCRejectedConnectionEvent {
+            peerId: ID!
+            sessionId: ID!
+
+            metadata: Raw!
+            errorMessage: String!
+
+            eventTimestamp: Float!
+        }
+
+        type RelayAllocationEvent {
+            username: String!
+            clientAddress: String!
+            clientPort: Int!
+            relayAddress: String!
+            relayPort: Int!
+            lifetime: Int!
+
+            eventTimestamp: Float!
+        }
     `;
 
     buildResolvers(adminStream: stream.Duplex): IResolvers {
@@ -238,43 +389,57 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
             });
         });
 
+        const deserializeStep = (stepData: SerializedValue<HandlerStepDefinition>) => {
+            const { stepLookup } = this.mockRTCServer;
+            return deserialize(stepData, adminStream, { stepLookup }, stepLookup);
+        };
+
+        const deserializeMatcher = (matcherData: SerializedValue<MatcherDefinition>) => {
+            const { matcherLookup } = this.mockRTCServer;
+            return deserialize(matcherData, adminStream, { matcherLookup }, matcherLookup);
+        };
+
+        const deserializeRule = ({
+            id,
+            priority,
+            completionChecker,
+            matchers,
+            steps
+        }: SerializedRuleData) => ({
+            id: id ?? undefined,
+            priority: priority ?? undefined,
+            completionChecker: completionChecker
+                ? deserialize(completionChecker, adminStream, {}, CompletionCheckerLookup)
+                : undefined,
+            matchers: matchers.map(deserializeMatcher),
+            steps: steps.map(deserializeStep)
+        });
+
         return {
             Mutation: {
-                createPeer: (__: any, { data: { steps } }: { data: {
-                    steps: Array<SerializedValue<HandlerStepDefinition>>
+                createPeer: (__: any, { data: { steps, options } }: { data: {
+                    steps: Array<SerializedValue<HandlerStepDefinition>>,
+                    options?: MockRTCPeerOptions
                 } }) => {
                     return this.mockRTCServer.buildPeerFromDefinition(
-                        steps.map((stepData) =>
-                            deserialize(stepData, adminStream, {}, StepLookup)
-                        )
+                        steps.map(deserializeStep),
+                        options
                     );
                 },
-                addRTCRule: (__: any, { data: { steps, matchers } }: { data: {
-                    matchers: Array<SerializedValue<MatcherDefinition>>
-                    steps: Array<SerializedValue<HandlerStepDefinition>>
-                } }) => {
-                    return this.mockRTCServer.addRuleFromDefinition(
-                        matchers.map((matcherData) =>
-                            deserialize(matcherData, adminStream, {}, MatcherLookup)
-                        ),
-                        steps.map((stepData) =>
-                            deserialize(stepData, adminStream, {}, StepLookup)
-                        )
+                addRTCRule: (__: any, { data }: { data: SerializedRuleData }) => {
+                    const { matchers, steps, ...options } = deserializeRule(data);
+                    return this.mockRTCServer.addRuleFromDefinition(matchers, steps, options);
+                },
+                setRTCRules: (__: any, { data: rules }: { data: Array<SerializedRuleData> }) => {
+                    return this.mockRTCServer.setRulesFromDefinitions(
+                        rules.map(deserializeRule)
                     );
                 },
-                setRTCRules: (__: any, { data: rules }: { data: Array<{
-                    matchers: Array<SerializedValue<MatcherDefinition>>
+                setUnmatchedConnectionSteps: (__: any, { steps }: {
                     steps: Array<SerializedValue<HandlerStepDefinition>>
-                }> }) => {
-                    return this.mockRTCServer.setRulesFromDefinitions(
-                        rules.map(({ matchers, steps }) => ({
-                            matchers: matchers.map((matcherData) =>
-                                deserialize(matcherData, adminStream, {}, MatcherLookup)
-                            ),
-                            steps: steps.map((stepData) =>
-                                deserialize(stepData, adminStream, {}, StepLookup)
-                            )
-                        }))
+                }) => {
+                    this.mockRTCServer.setUnmatchedConnectionSteps(
+                        steps.map(deserializeStep)
                     );
                 },
                 createOffer: async (__: any, { peerId, sessionId, options }: {
@@ -354,6 +519,53 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
                         id: answerParams.id,
                         description: answerParams.answer
                     };
+                },
+                addIceCandidate: async (__: any, { peerId, sessionId, candidate }: {
+                    peerId: string,
+                    sessionId: string,
+                    candidate: RTCIceCandidateInit | null
+                }): Promise<void> => {
+                    const session = this.mockRTCServer.getPeer(peerId).getSession(sessionId);
+                    await session.addIceCandidate(candidate);
+                },
+                setNetworkConditions: async (__: any, { peerId, sessionId, conditions }: {
+                    peerId: string,
+                    sessionId: string,
+                    conditions: NetworkConditions
+                }): Promise<void> => {
+                    const session = this.mockRTCServer.getPeer(peerId).getSession(sessionId);
+                    await session.setNetworkConditions(conditions);
+                },
+                injectMessage: async (__: any, { peerId, sessionId, direction, channel, message }: {
+                    peerId: string,
+                    sessionId: string,
+                    direction: MessageDirection,
+                    channel: string,
+                    message: SerializedMessage
+                }): Promise<void> => {
+                    const session = this.mockRTCServer.getPeer(peerId).getSession(sessionId);
+                    await session.injectMessage({
+                        direction,
+                        channel,
+                        message: deserializeMessage(message)
+                    });
+                },
+                releaseHeldMessage: async (__: any, { peerId, sessionId, messageId, action, message }: {
+                    peerId: string,
+                    sessionId: string,
+                    messageId: string,
+                    action: 'resume' | 'drop',
+                    message?: SerializedMessage | null
+                }): Promise<void> => {
+                    const session = this.mockRTCServer.getPeer(peerId).getSession(sessionId);
+                    if (action === 'drop') {
+                        await session.dropMessage(messageId);
+                    } else {
+                        await session.resumeMessage(
+                            messageId,
+                            message != null ? deserializeMessage(message) : undefined
+                        );
+                    }
                 }
             },
             Query: {
@@ -376,6 +588,31 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
                             return message;
                         }
                     });
+                },
+                getIceServers: async (__: any, { peerId }: { peerId: string }) => {
+                    const peer = this.mockRTCServer.getPeer(peerId);
+                    if (!peer) throw new Error("Id matches no active peer");
+
+                    return peer.getIceServers();
+                },
+                getSignallingUrl: async (__: any, { peerId, protocol }: {
+                    peerId: string,
+                    protocol: string
+                }) => {
+                    const peer = this.mockRTCServer.getPeer(peerId);
+                    if (!peer) throw new Error("Id matches no active peer");
+
+                    if (protocol === 'whip') return peer.getWhipUrl();
+                    else if (protocol === 'whep') return peer.getWhepUrl();
+                    else if (protocol === 'websocket') return peer.getWebSocketSignallingUrl();
+                    else throw new Error(`Unknown signalling protocol: ${protocol}`);
+                },
+                getRTCRules: async () => {
+                    const rules = await this.mockRTCServer.getRules();
+                    return rules.map(({ isPending, ...rule }) => ({
+                        ...rule,
+                        pending: isPending()
+                    }));
                 }
             },
             Subscription: {
@@ -384,7 +621,44 @@ export class MockRTCAdminPlugin implements PluggableAdmin.AdminPlugin<MockRTCOpt
                     [kebabToCamel(eventName)]: {
                         subscribe: () => pubsub.asyncIterator(eventName)
                     }
-                }), {}))
+                }), {})),
+                localIceCandidate: {
+                    subscribe: (__: any, { peerId, sessionId }: {
+                        peerId: string,
+                        sessionId: string
+                    }) => {
+                        const connection = this.mockRTCServer.getPeer(peerId)?.getConnection(sessionId);
+                        if (!connection) throw new Error("Id matches no active session");
+
+                        // We start listening immediately, so the candidates gathered so far (which are
+                        // replayed synchronously) are buffered until the subscription reads them:
+                        const emitter = new EventEmitter();
+                        const candidates = on(emitter, 'candidate');
+                        const unsubscribe = connection.onLocalCandidate((candidate) =>
+                            emitter.emit('candidate', candidate)
+                        );
+
+                        // A plain iterator, rather than a generator, so that unsubscribing takes effect
+                        // immediately, even while waiting for the next candidate:
+                        const subscription: AsyncIterableIterator<unknown> = {
+                            async next() {
+                                const result = await candidates.next();
+                                if (result.done) return result;
+
+                                const [candidate] = result.value;
+                                return { done: false, value: { localIceCandidate: { candidate } } };
+                            },
+                            async return() {
+                                unsubscribe();
+                                return candidates.return!();
+                            },
+                            [Symbol.asyncIterator]() {
+                                return subscription;
+                            }
+                        };
+                        return subscription;
+                    }
+                }
             }
         };
     }
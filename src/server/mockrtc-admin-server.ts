@@ -5,12 +5,20 @@
 
 import { PluggableAdmin } from 'mockttp';
 import { MockRTCAdminPlugin } from './mockrtc-admin-plugin';
+import type { MockRTCExtensions } from './mockrtc-server';
 
 export class MockRTCAdminServer extends PluggableAdmin.AdminServer<{ webrtc: MockRTCAdminPlugin }> {
 
-    constructor() {
+    constructor(extensions: MockRTCExtensions = {}) {
         super({
-            adminPlugins: { webrtc: MockRTCAdminPlugin }
+            adminPlugins: {
+                // Each session gets its own plugin instance, all sharing the same extensions:
+                webrtc: class extends MockRTCAdminPlugin {
+                    constructor() {
+                        super(extensions);
+                    }
+                }
+            }
         });
     }
 
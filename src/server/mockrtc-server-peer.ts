@@ -5,6 +5,7 @@
 
 import { randomUUID } from 'crypto';
 import { EventEmitter } from "events";
+import * as path from 'path';
 import {
     MockRTCPeer,
     MockRTCPeerOptions,
@@ -16,13 +17,16 @@ import {
     OfferOptions,
     AnswerOptions
 } from "../mockrtc-peer";
-import { HandlerStepImpl } from '../handling/handler-step-impls';
+import { HandlerStepImpl, runSteps } from '../handling/handler-step-impls';
+import type { MessageDirection } from '../handling/handler-step-definitions';
 
 import { RTCConnection } from '../webrtc/rtc-connection';
 import { MockRTCConnection } from '../webrtc/mockrtc-connection';
 import { DataChannelStream } from '../webrtc/datachannel-stream';
 import { MediaTrackStream } from '../webrtc/mediatrack-stream';
-import { TimingEvents } from '../mockrtc';
+import { recordMediaTrack } from '../webrtc/media-recording';
+import type { MockRTCSignallingServer } from './mockrtc-signalling-server';
+import { RTCIceServerOptions, TimingEvents } from '../mockrtc';
 
 export class MockRTCServerPeer implements MockRTCPeer {
 
@@ -30,26 +34,28 @@ export class MockRTCServerPeer implements MockRTCPeer {
 
     private debug: boolean = false;
 
-    // A list of all currently open connections managed by this peer
-    private readonly connections: { [id: string]: RTCConnection } = {};
+    // All currently open connections managed by this peer. These are maps, not objects, as ids
+    // come from clients, and must never match prototype properties.
+    private readonly connections = new Map<string, RTCConnection>();
 
     // A subset of the connections: external connections with no assigned internal connection
-    private readonly unassignedExternalConnections: { [id: string]: RTCConnection } = {};
+    private readonly unassignedExternalConnections = new Map<string, RTCConnection>();
 
     constructor(
         private getHandlerSteps: (conn: RTCConnection) =>
             (HandlerStepImpl[] | Promise<HandlerStepImpl[]>),
         private options: MockRTCPeerOptions & { peerId?: string } = {},
-        private eventEmitter: EventEmitter
+        private eventEmitter: EventEmitter,
+        private signallingServer: MockRTCSignallingServer
     ) {
         this.debug = !!options.debug;
         if (options.peerId) this.peerId = options.peerId;
     }
 
     private trackConnection(conn: RTCConnection) {
-        this.connections[conn.id] = conn;
+        this.connections.set(conn.id, conn);
         conn.once('connection-closed', () => {
-            delete this.connections[conn.id];
+            this.connections.delete(conn.id);
         });
 
         if (conn instanceof MockRTCConnection) {
@@ -199,6 +205,48 @@ export class MockRTCServerPeer implements MockRTCPeer {
                 // existing tracks here too:
                 conn.mediaTracks.forEach(emitTrackEvents);
 
+                conn.on('message-held', ({ id, message, direction, channelLabel }: {
+                    id: string,
+                    message: string | Buffer,
+                    direction: MessageDirection,
+                    channelLabel: string
+                }) => {
+                    const isBinary = Buffer.isBuffer(message);
+
+                    this.eventEmitter.emit('data-channel-message-held', {
+                        ...connectionEventParams,
+                        messageId: id,
+                        channelLabel,
+                        direction,
+                        content: isBinary
+                            ? message
+                            : Buffer.from(message, 'utf8'),
+                        isBinary,
+                        eventTimestamp: performance.now()
+                    });
+                });
+
+                conn.on('message-transform-failed', ({ message, direction, channelLabel, error }: {
+                    message: string | Buffer,
+                    direction: MessageDirection,
+                    channelLabel: string,
+                    error: Error
+                }) => {
+                    const isBinary = Buffer.isBuffer(message);
+
+                    this.eventEmitter.emit('data-channel-message-transform-failed', {
+                        ...connectionEventParams,
+                        channelLabel,
+                        direction,
+                        content: isBinary
+                            ? message
+                            : Buffer.from(message, 'utf8'),
+                        isBinary,
+                        errorMessage: error.message,
+                        eventTimestamp: performance.now()
+                    });
+                });
+
                 conn.once('connection-closed', () => {
                     timingEvents.disconnectTimestamp = performance.now();
                     this.eventEmitter.emit('peer-disconnected', { ...connectionEventParams });
@@ -208,17 +256,17 @@ export class MockRTCServerPeer implements MockRTCPeer {
     }
 
     private getExternalConnection = (id: string) => {
-        const externalConn = this.unassignedExternalConnections[id];
+        const externalConn = this.unassignedExternalConnections.get(id);
         if (!externalConn) throw new Error(`Attempted to connect unknown external conn ${id}`);
-        delete this.unassignedExternalConnections[id];
+        this.unassignedExternalConnections.delete(id);
         return externalConn;
     }
 
     async createExternalOffer(options: OfferOptions = {}): Promise<MockRTCExternalOfferParams> {
         if (this.debug) console.log(`Creating external peer offer for ${this.peerId}`);
 
-        const externalConn = new RTCConnection();
-        this.unassignedExternalConnections[externalConn.id] = externalConn;
+        const externalConn = new RTCConnection(this.options.connectionOptions);
+        this.unassignedExternalConnections.set(externalConn.id, externalConn);
         this.trackConnection(externalConn);
 
         return {
@@ -238,8 +286,8 @@ export class MockRTCServerPeer implements MockRTCPeer {
     ): Promise<MockRTCExternalAnswerParams> {
         if (this.debug) console.log(`Answering offer with external peer for ${this.peerId}`);
 
-        const externalConn = new RTCConnection();
-        this.unassignedExternalConnections[externalConn.id] = externalConn;
+        const externalConn = new RTCConnection(this.options.connectionOptions);
+        this.unassignedExternalConnections.set(externalConn.id, externalConn);
         this.trackConnection(externalConn);
 
         return {
@@ -250,7 +298,10 @@ export class MockRTCServerPeer implements MockRTCPeer {
     }
 
     private createConnection() {
-        const conn = new MockRTCConnection(this.getExternalConnection);
+        const conn = new MockRTCConnection(
+            this.getExternalConnection,
+            this.options.connectionOptions
+        );
         this.trackConnection(conn);
 
         this.handleConnection(conn).catch((error) => {
@@ -272,6 +323,44 @@ export class MockRTCServerPeer implements MockRTCPeer {
             conn.on('channel-created', logChannelMessages);
         }
 
+        if (this.options.recordMedia) {
+            const { directory, format } = this.options.recordMedia;
+
+            const recordTrack = (track: MediaTrackStream) => {
+                const recordingEventParams = {
+                    peerId: this.peerId,
+                    sessionId: conn.id,
+                    trackMid: track.mid
+                };
+
+                recordMediaTrack(
+                    track,
+                    path.join(directory, `${conn.id}-${track.mid}`),
+                    format,
+                    // Looked up lazily, since tracks may be created before negotiation completes:
+                    () => conn.getRemoteDescription()?.parsedSdp.media
+                        .find((media) => String(media.mid) === track.mid)
+                ).then((recording) => {
+                    if (!recording) return;
+
+                    this.eventEmitter.emit('media-recording-completed', {
+                        ...recordingEventParams,
+                        ...recording,
+                        eventTimestamp: performance.now()
+                    });
+                }).catch((error: Error) => {
+                    this.eventEmitter.emit('media-recording-failed', {
+                        ...recordingEventParams,
+                        errorMessage: error.message,
+                        eventTimestamp: performance.now()
+                    });
+                });
+            };
+
+            conn.mediaTracks.forEach(recordTrack);
+            conn.on('track-created', recordTrack);
+        }
+
         return conn;
     }
 
@@ -300,24 +389,33 @@ export class MockRTCServerPeer implements MockRTCPeer {
     }
 
     getSession(id: string): MockRTCSession {
-        return this.connections[id].sessionApi;
+        return this.connections.get(id)!.sessionApi;
+    }
+
+    getConnection(id: string): RTCConnection | undefined {
+        return this.connections.get(id);
+    }
+
+    hasSession(id: string): boolean {
+        return this.connections.has(id);
+    }
+
+    async closeSession(id: string) {
+        await this.connections.get(id)?.close();
     }
 
     private async handleConnection(conn: MockRTCConnection) {
         await conn.waitUntilConnected();
 
         const handlerSteps = await this.getHandlerSteps(conn);
-
-        for (const step of handlerSteps) {
-            await step.handle(conn);
-        }
+        await runSteps(handlerSteps, conn.getMainView());
 
         await conn.close();
     }
 
     async close() {
         await Promise.all(
-            Object.values(this.connections).map(c =>
+            [...this.connections.values()].map(c =>
                 c.close()
             )
         );
@@ -341,4 +439,38 @@ export class MockRTCServerPeer implements MockRTCPeer {
         return this.messages[channelName].flat();
     }
 
+    getWhipUrl() {
+        return this.signallingServer.getUrl(this.peerId, 'whip');
+    }
+
+    getWhepUrl() {
+        return this.signallingServer.getUrl(this.peerId, 'whep');
+    }
+
+    getWebSocketSignallingUrl() {
+        return this.signallingServer.getUrl(this.peerId, 'websocket');
+    }
+
+    async getIceServers(): Promise<RTCIceServerOptions[]> {
+        return (this.options.connectionOptions?.iceServers ?? []).map((server) =>
+            typeof server === 'string'
+                ? parseIceServerUrl(server)
+                : server
+        );
+    }
+
+}
+
+// Node-DataChannel's URL format embeds TURN credentials in the URL, which browsers don't accept,
+// so we need to split those out into separate fields:
+function parseIceServerUrl(url: string): RTCIceServerOptions {
+    const match = /^(turns?):([^:@]*):([^@]*)@(.*)$/.exec(url);
+    if (!match) return { urls: url };
+
+    const [, scheme, username, credential, address] = match;
+    return {
+        urls: `${scheme}:${address}`,
+        username: decodeURIComponent(username),
+        credential: decodeURIComponent(credential)
+    };
 }
\ No newline at end of file
@@ -4,46 +4,160 @@
  */
 
 import { EventEmitter } from "events";
-
-import { MockRTC, MockRTCEvent, MockRTCOptions } from "../mockrtc";
+import { randomUUID } from "crypto";
+
+import {
+    MockRTC,
+    MockRTCEvent,
+    MockRTCOptions,
+    MockRTCRule,
+    MockRTCRuleDefinition,
+    MockRTCRuleOptions
+} from "../mockrtc";
 import { MockRTCBase } from "../mockrtc-base";
 import { MockRTCServerPeer } from "./mockrtc-server-peer";
-import { MockRTCPeer } from "../mockrtc-peer";
+import { MockRTCTurnServer } from "./mockrtc-turn-server";
+import { MockRTCSignallingServer } from "./mockrtc-signalling-server";
+import { MockRTCPeer, MockRTCPeerOptions } from "../mockrtc-peer";
 import { RTCConnection } from "../webrtc/rtc-connection";
 
 import type { MatcherDefinition } from "../matching/matcher-definitions";
-import { MatcherImpl, MatcherLookup } from "../matching/matcher-impls";
+import type { CompletionCheckerDefinition } from "../matching/completion-checkers";
+import {
+    buildMatcherImpl,
+    buildMatchingContext,
+    MatcherImpl,
+    MatchingContext,
+    MatcherImplClass,
+    MatcherImplLookup,
+    MatcherLookup
+} from "../matching/matcher-impls";
 import type { HandlerStepDefinition } from "../handling/handler-step-definitions";
-import { DynamicProxyStepImpl, HandlerStepImpl, StepLookup } from "../handling/handler-step-impls";
+import {
+    buildStepImpl,
+    CloseStepImpl,
+    DynamicProxyStepImpl,
+    HandlerStepImpl,
+    HandlerStepImplClass,
+    StepImplLookup,
+    StepLookup
+} from "../handling/handler-step-impls";
 
 const MATCHING_PEER_ID = 'matching-peer';
+const DEFAULT_RULE_MATCHING_TIMEOUT = 5000;
+
+/**
+ * Custom step & matcher implementations to register with a MockRTC server, in addition to
+ * the built-in steps & matchers. These are keyed by their type, which must match the `type`
+ * of the corresponding definitions used by clients, and must not conflict with any built-in
+ * types.
+ *
+ * Each implementation should extend its definition class, adding the `handle()` or `matches()`
+ * method that will run on the server, just like the built-in implementations.
+ */
+export interface MockRTCExtensions {
+    steps?: { [type: string]: HandlerStepImplClass };
+    matchers?: { [type: string]: MatcherImplClass };
+}
 
 export class MockRTCServer extends MockRTCBase implements MockRTC {
 
     private debug: boolean = false;
 
+    /**
+     * The step & matcher implementations available in this session, including any registered
+     * extensions.
+     *
+     * @internal
+     */
+    readonly stepLookup: StepImplLookup;
+
+    /**
+     * @internal
+     */
+    readonly matcherLookup: MatcherImplLookup;
+
     constructor(
-        private options: MockRTCOptions = {}
+        private options: MockRTCOptions = {},
+        extensions: MockRTCExtensions = {}
     ) {
         super();
         this.debug = !!options.debug;
+
+        this.stepLookup = buildLookup<HandlerStepImplClass>('step', StepLookup, extensions.steps);
+        this.matcherLookup = buildLookup<MatcherImplClass>('matcher', MatcherLookup, extensions.matchers);
+
+        if (Array.isArray(options.unmatchedConnections)) {
+            this.setUnmatchedConnectionSteps(options.unmatchedConnections);
+        }
     }
 
     private eventEmitter = new EventEmitter();
 
+    private turnServer: MockRTCTurnServer | undefined;
+
+    private signallingServer = new MockRTCSignallingServer(
+        (peerId) => this._activePeers.get(peerId),
+        () => this.matchingPeer,
+        this.options.signallingServer
+    );
+
     async start(): Promise<void> {
         if (this.debug) console.log("Starting MockRTC mock session");
 
-        this.matchingPeer = this._activePeers[MATCHING_PEER_ID] = new MockRTCServerPeer(
+        if (this.options.turnServer) {
+            this.turnServer = new MockRTCTurnServer(
+                this.options.turnServer === true ? {} : this.options.turnServer
+            );
+            this.turnServer.on('relay-allocated', (event) => {
+                this.eventEmitter.emit('relay-allocated', event);
+            });
+            await this.turnServer.start();
+
+            if (this.debug) console.log(`Started TURN server at ${this.turnServer.iceServer.urls}`);
+        }
+
+        this.matchingPeer = new MockRTCServerPeer(
             this.matchConnection.bind(this),
-            { ...this.options, peerId: MATCHING_PEER_ID },
-            this.eventEmitter
+            { ...this.getPeerOptions(), peerId: MATCHING_PEER_ID },
+            this.eventEmitter,
+            this.signallingServer
         );
+        this._activePeers.set(MATCHING_PEER_ID, this.matchingPeer);
     }
 
     async stop(): Promise<void> {
         if (this.debug) console.log("Stopping MockRTC mock session");
         await this.reset();
+
+        await this.turnServer?.stop();
+        this.turnServer = undefined;
+
+        await this.signallingServer.stop();
+    }
+
+    /**
+     * Combine the session-wide options with any peer-specific options, including the
+     * embedded TURN server in the ICE servers used by the peer, if one is running.
+     */
+    private getPeerOptions(options: MockRTCPeerOptions = {}): MockRTCPeerOptions {
+        const connectionOptions = {
+            ...this.options.connectionOptions,
+            ...options.connectionOptions
+        };
+
+        return {
+            debug: this.options.debug,
+            recordMessages: this.options.recordMessages,
+            recordMedia: this.options.recordMedia,
+            ...options,
+            connectionOptions: this.turnServer
+                ? {
+                    ...connectionOptions,
+                    iceServers: [...(connectionOptions.iceServers ?? []), this.turnServer.iceServer]
+                }
+                : connectionOptions
+        };
     }
 
     async reset() {
@@ -53,20 +167,21 @@ export class MockRTCServer extends MockRTCBase implements MockRTC {
             )
         );
 
-        this._activePeers = {};
+        this._activePeers.clear();
         this.matchingPeer = undefined;
         this.rules = [];
 
         this.eventEmitter.removeAllListeners();
     }
 
-    private _activePeers: { [id: string]: MockRTCServerPeer } = {};
+    // A map, not an object, as ids come from clients, and must never match prototype properties
+    private _activePeers = new Map<string, MockRTCServerPeer>();
     get activePeers(): Readonly<MockRTCServerPeer[]> {
-        return Object.values(this._activePeers);
+        return [...this._activePeers.values()];
     }
 
     getPeer(id: string): MockRTCServerPeer {
-        return this._activePeers[id];
+        return this._activePeers.get(id)!;
     }
 
     async on(event: MockRTCEvent, callback: (...args: any) => void) {
@@ -85,86 +200,241 @@ export class MockRTCServer extends MockRTCBase implements MockRTC {
         return this.matchingPeer;
     }
 
-    private rules: Array<{
-        matchers: MatcherImpl[],
-        handlerSteps: HandlerStepImpl[]
-    }> = [];
+    private rules: Array<RuleState> = [];
 
-    async setRulesFromDefinitions(
-        rules: Array<{
-            matchers: MatcherDefinition[],
-            steps: HandlerStepDefinition[]
-        }>
-    ) {
+    async setRulesFromDefinitions(rules: Array<MockRTCRuleDefinition>) {
         this.rules = [];
-        await Promise.all(rules.map(({ matchers, steps }) =>
-            this.addRuleFromDefinition(matchers, steps)
+        await Promise.all(rules.map(({ matchers, steps, ...options }) =>
+            this.addRuleFromDefinition(matchers, steps, options)
         ));
     }
 
     async addRuleFromDefinition(
         matcherDefinitions: MatcherDefinition[],
-        handlerStepDefinitions: HandlerStepDefinition[]
+        handlerStepDefinitions: HandlerStepDefinition[],
+        options: MockRTCRuleOptions = {}
     ) {
-        const matchers = matcherDefinitions.map((definition): MatcherImpl => {
-            return Object.assign(
-                Object.create(MatcherLookup[definition.type].prototype),
-                definition
-            );
-        });
+        const matchers = matcherDefinitions.map((definition) =>
+            buildMatcherImpl(definition, this.matcherLookup)
+        );
+        const handlerSteps = handlerStepDefinitions.map((definition) =>
+            buildStepImpl(definition, this.stepLookup)
+        );
 
-        const handlerSteps = handlerStepDefinitions.map((definition): HandlerStepImpl => {
-            return Object.assign(
-                Object.create(StepLookup[definition.type].prototype),
-                definition
-            );
+        this.rules.push({
+            id: options.id ?? randomUUID(),
+            priority: options.priority ?? 0,
+            matchers,
+            handlerSteps,
+            completionChecker: options.completionChecker,
+            hitCount: 0
         });
+    }
 
-        this.rules.push({ matchers, handlerSteps });
+    async getRules(): Promise<MockRTCRule[]> {
+        return this.rules.map((rule) => {
+            const { id, priority, hitCount } = rule;
+            const pending = isRulePending(rule);
+
+            return {
+                id,
+                priority,
+                hitCount,
+                explanation: explainRule(rule),
+                isPending: () => pending
+            };
+        });
     }
 
     private async matchConnection(connection: RTCConnection) {
         if (this.debug) console.log('Matching incoming RTC connection...');
         await connection.waitUntilConnected();
 
-        for (const rule of this.rules) {
-            const matches = rule.matchers.every(matcher => matcher.matches(connection));
+        // Like Mockttp, we use the first matching rule that isn't yet complete, from the
+        // highest priority group that has any matches. If every matching rule in that group
+        // has been used already, the last matching rule without an explicit limit is reused.
+        const priorities = [...new Set(this.rules.map(r => r.priority))].sort((a, b) => b - a);
+
+        // Some matchers wait for data channel activity before matching. This context shares
+        // that waiting between all matchers, so we wait at most once for each kind of data:
+        const matchingContext = buildMatchingContext(
+            connection,
+            this.options.ruleMatchingTimeout ?? DEFAULT_RULE_MATCHING_TIMEOUT
+        );
+
+        for (const priority of priorities) {
+            const candidateRules = this.rules.filter(rule =>
+                rule.priority === priority &&
+                !isRuleComplete(rule)
+            );
+
+            // Rules are all checked in parallel, but we use the results in order, so we can pick
+            // the first incomplete matching rule without waiting for later rules to match:
+            const ruleMatches = candidateRules.map(rule =>
+                matchesAll(rule.matchers, connection, matchingContext)
+            );
+            // We may never await some of these results, so we avoid unhandled rejections:
+            ruleMatches.forEach(result => result.catch(() => {}));
+
+            let nextRule: RuleState | undefined;
+            for (const [i, rule] of candidateRules.entries()) {
+                if (!await ruleMatches[i]) continue;
+
+                // Other connections may have used this rule while we were waiting, so we check
+                // completion only now:
+                const completion = isRuleComplete(rule);
+                if (completion === false) {
+                    nextRule = rule;
+                    break;
+                } else if (completion === null) {
+                    nextRule = rule; // The last matching default rule is used, if no others match
+                }
+            }
+
+            if (nextRule) {
+                nextRule.hitCount += 1;
 
-            if (matches) {
                 if (this.debug) console.log(`Matched incoming RTC connection, running steps: ${
-                    rule.handlerSteps.map(s => s.type).join(', ')
+                    nextRule.handlerSteps.map(s => s.type).join(', ')
                 }`);
 
-                return rule.handlerSteps;
+                return nextRule.handlerSteps;
             }
         }
 
         if (this.debug) console.log('RTC connection did not match any rules');
 
-        // Unmatched connections are proxied dynamically. In practice, that means they're accepted
-        // and ignored initially, unless an external peer also connects and is attached:
-        return [new DynamicProxyStepImpl()];
+        const unmatchedEventParams = {
+            peerId: MATCHING_PEER_ID,
+            sessionId: connection.id,
+            metadata: connection.metadata
+        };
+
+        this.eventEmitter.emit('connection-unmatched', {
+            ...unmatchedEventParams,
+            localSessionDescription: connection.getLocalDescription(),
+            remoteSessionDescription: connection.getRemoteDescription(),
+            eventTimestamp: performance.now()
+        });
+
+        if (this.unmatchedConnectionSteps) return this.unmatchedConnectionSteps;
+
+        const { unmatchedConnections = 'proxy' } = this.options;
+        if (unmatchedConnections === 'close') {
+            return [new CloseStepImpl()];
+        } else if (unmatchedConnections === 'reject') {
+            this.eventEmitter.emit('connection-rejected', {
+                ...unmatchedEventParams,
+                errorMessage: 'RTC connection did not match any rules',
+                eventTimestamp: performance.now()
+            });
+            return [new CloseStepImpl()];
+        } else {
+            // By default, unmatched connections are proxied dynamically. In practice, that means
+            // they're accepted and ignored initially, unless an external peer also connects and
+            // is attached:
+            return [new DynamicProxyStepImpl()];
+        }
+    }
+
+    private unmatchedConnectionSteps: HandlerStepImpl[] | undefined;
+
+    /**
+     * Set the steps to run for connections that don't match any rules. This is the
+     * equivalent of the `unmatchedConnections` option, for use when the steps can't
+     * be provided up front (e.g. when they're sent remotely via the admin API).
+     *
+     * @internal
+     */
+    setUnmatchedConnectionSteps(handlerStepDefinitions: HandlerStepDefinition[]) {
+        this.unmatchedConnectionSteps = handlerStepDefinitions.map((definition) =>
+            buildStepImpl(definition, this.stepLookup)
+        );
     }
 
     // Peer definition API:
 
-    async buildPeerFromDefinition(handlerStepDefinitions: HandlerStepDefinition[]): Promise<MockRTCServerPeer> {
-        const handlerSteps = handlerStepDefinitions.map((definition): HandlerStepImpl => {
-            return Object.assign(
-                Object.create(StepLookup[definition.type].prototype),
-                definition
-            );
-        });
+    async buildPeerFromDefinition(
+        handlerStepDefinitions: HandlerStepDefinition[],
+        options: MockRTCPeerOptions = {}
+    ): Promise<MockRTCServerPeer> {
+        const handlerSteps = handlerStepDefinitions.map((definition) =>
+            buildStepImpl(definition, this.stepLookup)
+        );
         const peer = new MockRTCServerPeer(
             () => handlerSteps, // Always runs a fixed set of steps
-            this.options,
-            this.eventEmitter
+            this.getPeerOptions(options),
+            this.eventEmitter,
+            this.signallingServer
         );
-        this._activePeers[peer.peerId] = peer;
+        this._activePeers.set(peer.peerId, peer);
         if (this.debug) console.log(
             `Built MockRTC peer ${peer.peerId} with steps: ${handlerStepDefinitions.map(d => d.type).join(', ')}`
         );
         return peer;
     }
 
-}
\ No newline at end of file
+}
+
+interface RuleState {
+    id: string;
+    priority: number;
+    matchers: MatcherImpl[];
+    handlerSteps: HandlerStepImpl[];
+    completionChecker: CompletionCheckerDefinition | undefined;
+    hitCount: number;
+}
+
+// True when the rule's explicit limit is reached, false if it should still be used, or null
+// for rules without an explicit limit that have already been used (which are used only as a
+// fallback, when no other matching rules are available).
+function isRuleComplete(rule: RuleState): boolean | null {
+    if (rule.completionChecker) return rule.completionChecker.isComplete(rule.hitCount);
+    else if (rule.hitCount === 0) return false;
+    else return null;
+}
+
+async function matchesAll(
+    matchers: MatcherImpl[],
+    connection: RTCConnection,
+    context: MatchingContext
+): Promise<boolean> {
+    // Matchers are checked in order, so that cheap synchronous matchers can rule out a
+    // connection before we wait for any data channel activity.
+    for (const matcher of matchers) {
+        if (!await matcher.matches(connection, context)) return false;
+    }
+    return true;
+}
+
+function isRulePending(rule: RuleState): boolean {
+    const complete = isRuleComplete(rule);
+    return complete !== null
+        ? !complete
+        : rule.hitCount === 0;
+}
+
+function explainRule(rule: RuleState): string {
+    const matchers = rule.matchers.length
+        ? `connections ${rule.matchers.map(m => m.explain()).join(' and ')}`
+        : 'all connections';
+    const steps = rule.handlerSteps.map(s => s.explain()).join(', ');
+    const completion = rule.completionChecker
+        ? `, ${rule.completionChecker.explain(rule.hitCount)}`
+        : '';
+
+    return `Match ${matchers}, and then ${steps}${completion}.`;
+}
+
+function buildLookup<T>(
+    kind: string,
+    builtIn: { [type: string]: T },
+    extensions: { [type: string]: T } = {}
+): { [type: string]: T } {
+    const conflictingType = Object.keys(extensions).find((type) => type in builtIn);
+    if (conflictingType) {
+        throw new Error(`Can't register custom ${kind} type '${conflictingType}', as it conflicts with a built-in ${kind}`);
+    }
+
+    return { ...builtIn, ...extensions };
+}
@@ -0,0 +1,368 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+
+import type { RTCIceServerOptions, SignallingServerOptions } from '../mockrtc';
+import type { MockRTCSession } from '../mockrtc-peer';
+import type { MockRTCServerPeer } from './mockrtc-server-peer';
+
+export type SignallingProtocol = 'whip' | 'whep' | 'websocket';
+
+/**
+ * The messages used by the WebSocket signalling protocol. Each message is sent as a JSON
+ * object in a single text frame, in either direction:
+ *
+ * - `offer`: an SDP offer. Clients can send this to start a session (or renegotiate an
+ *   existing session), and MockRTC will reply with an answer. MockRTC sends this in
+ *   reply to `request-offer`.
+ * - `answer`: an SDP answer to the last offer received. MockRTC's answers include the
+ *   session id.
+ * - `request-offer`: sent by clients to ask MockRTC to create an offer for them to answer,
+ *   starting (or renegotiating) a session.
+ * - `candidate`: a trickled ICE candidate (in the format of `RTCIceCandidateInit`), or
+ *   null once all candidates have been sent. Sent in both directions.
+ * - `bye`: sent by clients to close the session. Closing the socket does the same.
+ * - `error`: sent by MockRTC if a message can't be handled, with a description of the error.
+ *
+ * Each socket corresponds to a single session with a single mock peer.
+ */
+export type WebSocketSignallingMessage =
+    | { type: 'offer', sdp: string, sessionId?: string }
+    | { type: 'answer', sdp: string, sessionId?: string }
+    | { type: 'request-offer' }
+    | { type: 'candidate', candidate: RTCIceCandidateInit | null }
+    | { type: 'bye' }
+    | { type: 'error', message: string };
+
+/**
+ * An HTTP server, exposing standard signalling endpoints for mock peers, so that clients
+ * can connect to them without any custom signalling code.
+ *
+ * This supports WHIP & WHEP (RFC 9725 and its WHEP equivalent): clients POST an SDP offer
+ * to the peer's endpoint, and receive an answer plus a session resource URL, which supports
+ * PATCH for trickle ICE and DELETE to close the connection.
+ *
+ * It also supports a simple WebSocket protocol (see {@link WebSocketSignallingMessage})
+ * at `/websocket/<peer id or room>`. Any path that doesn't match an existing peer id is
+ * treated as a room name and connects to the matching peer, so that apps with their own
+ * signalling can be pointed at MockRTC just by changing the signalling URL.
+ *
+ * The server is only started on demand, when a signalling URL is first requested.
+ */
+export class MockRTCSignallingServer {
+
+    private server: http.Server | undefined;
+    private serverStarted: Promise<void> | undefined;
+
+    private webSocketServer = new WebSocketServer({ noServer: true });
+
+    constructor(
+        private getPeer: (peerId: string) => MockRTCServerPeer | undefined,
+        private getMatchingPeer: () => MockRTCServerPeer | undefined,
+        private options: SignallingServerOptions = {}
+    ) {}
+
+    private start() {
+        this.serverStarted ??= new Promise<void>((resolve, reject) => {
+            this.server = http.createServer((req, res) => {
+                this.handleRequest(req, res).catch((error) => {
+                    console.error('Error handling signalling request:', error);
+                    if (!res.headersSent) {
+                        sendResponse(res, 500, { 'content-type': 'text/plain' }, error.message);
+                    } else {
+                        res.destroy();
+                    }
+                });
+            });
+
+            this.server.on('upgrade', (req, socket, head) => {
+                const [protocol, peerIdOrRoom, ...otherParts] = new URL(req.url!, 'http://localhost')
+                    .pathname
+                    .split('/')
+                    .slice(1)
+                    .map(decodeURIComponent);
+
+                const peer = protocol === 'websocket' && !otherParts.length
+                    ? (peerIdOrRoom && this.getPeer(peerIdOrRoom)) || this.getMatchingPeer()
+                    : undefined;
+
+                if (!peer) {
+                    socket.destroy();
+                    return;
+                }
+
+                this.webSocketServer.handleUpgrade(req, socket, head, (ws) => {
+                    this.handleWebSocket(ws, peer, req);
+                });
+            });
+
+            this.server.once('error', reject);
+            this.server.listen(
+                this.options.port ?? 0,
+                this.options.bindAddress ?? '127.0.0.1',
+                () => resolve()
+            );
+        });
+
+        return this.serverStarted;
+    }
+
+    async stop() {
+        if (!this.server) return;
+
+        const server = this.server;
+        await this.serverStarted?.catch(() => {});
+
+        this.server = undefined;
+        this.serverStarted = undefined;
+
+        this.webSocketServer.clients.forEach((ws) => ws.terminate());
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    /**
+     * Get the URL of a given type of signalling endpoint for a given peer, starting the server
+     * if it's not already running.
+     */
+    async getUrl(peerId: string, protocol: SignallingProtocol): Promise<string> {
+        await this.start();
+
+        const { address, port } = this.server!.address() as AddressInfo;
+        const host = address === '0.0.0.0' ? '127.0.0.1' : address;
+        const scheme = protocol === 'websocket' ? 'ws' : 'http';
+        return `${scheme}://${host}:${port}/${protocol}/${peerId}`;
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        const [protocol, peerId, sessionId, ...otherParts] = new URL(req.url!, 'http://localhost')
+            .pathname
+            .split('/')
+            .slice(1)
+            .map(decodeURIComponent);
+
+        if (
+            (protocol !== 'whip' && protocol !== 'whep') ||
+            !peerId ||
+            otherParts.length
+        ) {
+            return sendResponse(res, 404, {}, 'Unknown signalling endpoint');
+        }
+
+        const peer = this.getPeer(peerId);
+        if (!peer) return sendResponse(res, 404, {}, `No peer found with id ${peerId}`);
+
+        if (sessionId && !peer.hasSession(sessionId)) {
+            return sendResponse(res, 404, {}, `No session found with id ${sessionId}`);
+        }
+
+        const allowedMethods = sessionId
+            ? ['PATCH', 'DELETE', 'OPTIONS']
+            : ['POST', 'OPTIONS'];
+
+        if (req.method === 'OPTIONS') {
+            return sendResponse(res, 204, {
+                'access-control-allow-methods': allowedMethods.join(', '),
+                'access-control-allow-headers': 'content-type, authorization, if-match',
+                ...(!sessionId ? { 'link': await getIceServerLinks(peer) } : {})
+            });
+        }
+
+        if (!allowedMethods.includes(req.method!)) {
+            return sendResponse(res, 405, { 'allow': allowedMethods.join(', ') });
+        }
+
+        if (req.method === 'POST') {
+            if (!isContentType(req, 'application/sdp')) {
+                return sendResponse(res, 415, {}, 'Offers must be sent as application/sdp');
+            }
+
+            const offerSdp = await readBody(req);
+
+            let answerParams: Awaited<ReturnType<MockRTCServerPeer['answerOffer']>>;
+            try {
+                answerParams = await peer.answerOffer({ type: 'offer', sdp: offerSdp }, {
+                    connectionMetadata: {
+                        userAgent: req.headers['user-agent'],
+                        sourceURL: req.headers['referer']
+                    }
+                });
+            } catch (e: any) {
+                return sendResponse(res, 400, {}, e.message ?? 'Invalid offer');
+            }
+
+            return sendResponse(res, 201, {
+                'content-type': 'application/sdp',
+                'location': `/${protocol}/${peerId}/${answerParams.session.sessionId}`,
+                'link': await getIceServerLinks(peer)
+            }, answerParams.answer.sdp);
+        } else if (req.method === 'PATCH') {
+            if (!isContentType(req, 'application/trickle-ice-sdpfrag')) {
+                return sendResponse(res, 415, {}, 'Candidates must be sent as application/trickle-ice-sdpfrag');
+            }
+
+            const session = peer.getSession(sessionId);
+            const candidates = parseSdpFragCandidates(await readBody(req));
+
+            for (let candidate of candidates) {
+                await session.addIceCandidate(candidate);
+            }
+
+            return sendResponse(res, 204);
+        } else if (req.method === 'DELETE') {
+            await peer.closeSession(sessionId);
+            return sendResponse(res, 200);
+        }
+    }
+
+    private handleWebSocket(ws: WebSocket, peer: MockRTCServerPeer, req: http.IncomingMessage) {
+        const connectionMetadata = {
+            userAgent: req.headers['user-agent'],
+            sourceURL: req.headers['origin']
+        };
+
+        let session: MockRTCSession | undefined;
+
+        const send = (message: WebSocketSignallingMessage) => {
+            if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+        };
+
+        // Once our first description has been sent, we start trickling our candidates:
+        const startSession = (newSession: MockRTCSession) => {
+            session = newSession;
+            return session.onLocalIceCandidate((candidate) => send({ type: 'candidate', candidate }));
+        };
+
+        const handleMessage = async (message: WebSocketSignallingMessage) => {
+            if (message.type === 'offer') {
+                if (!session) {
+                    const { answer, session: newSession } = await peer.answerOffer(
+                        { type: 'offer', sdp: message.sdp },
+                        { trickleIce: true, connectionMetadata }
+                    );
+                    send({ type: 'answer', sdp: answer.sdp, sessionId: newSession.sessionId });
+                    await startSession(newSession);
+                } else {
+                    const answer = await session.answerOffer(
+                        { type: 'offer', sdp: message.sdp },
+                        { trickleIce: true }
+                    );
+                    send({ type: 'answer', sdp: answer.sdp, sessionId: session.sessionId });
+                }
+            } else if (message.type === 'request-offer') {
+                if (!session) {
+                    const { offer, session: newSession } = await peer.createOffer({
+                        trickleIce: true,
+                        connectionMetadata
+                    });
+                    send({ type: 'offer', sdp: offer.sdp, sessionId: newSession.sessionId });
+                    await startSession(newSession);
+                } else {
+                    const offer = await session.createOffer({ trickleIce: true });
+                    send({ type: 'offer', sdp: offer.sdp, sessionId: session.sessionId });
+                }
+            } else if (message.type === 'answer') {
+                if (!session) throw new Error("Can't accept an answer before sending an offer");
+                await session.completeOffer({ type: 'answer', sdp: message.sdp });
+            } else if (message.type === 'candidate') {
+                if (!session) throw new Error("Can't add a candidate before starting a session");
+                await session.addIceCandidate(message.candidate);
+            } else if (message.type === 'bye') {
+                ws.close(1000);
+            } else {
+                throw new Error(`Unrecognized signalling message type: ${message.type}`);
+            }
+        };
+
+        // Messages are handled strictly in order, e.g. so candidates that arrive
+        // immediately after an offer aren't added until the offer is handled:
+        let messageQueue = Promise.resolve();
+        ws.on('message', (data) => {
+            messageQueue = messageQueue.then(async () => {
+                try {
+                    await handleMessage(JSON.parse(data.toString()));
+                } catch (e: any) {
+                    send({ type: 'error', message: e.message ?? String(e) });
+                }
+            });
+        });
+
+        ws.on('close', () => {
+            messageQueue.then(() => {
+                if (session) return peer.closeSession(session.sessionId);
+            }).catch(() => {});
+        });
+    }
+
+}
+
+function sendResponse(
+    res: http.ServerResponse,
+    status: number,
+    headers: http.OutgoingHttpHeaders = {},
+    body?: string
+) {
+    res.writeHead(status, {
+        // Signalling is often used from browsers, so we allow requests from any origin:
+        'access-control-allow-origin': '*',
+        'access-control-expose-headers': 'location, link',
+        ...headers
+    });
+    res.end(body);
+}
+
+function isContentType(req: http.IncomingMessage, contentType: string) {
+    return req.headers['content-type']?.split(';')[0].trim().toLowerCase() === contentType;
+}
+
+function readBody(req: http.IncomingMessage) {
+    return new Promise<string>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Builds the Link headers that WHIP & WHEP use to tell clients which ICE servers to use.
+ */
+async function getIceServerLinks(peer: MockRTCServerPeer) {
+    const iceServers: RTCIceServerOptions[] = await peer.getIceServers();
+
+    return iceServers.flatMap(({ urls, username, credential }) =>
+        (Array.isArray(urls) ? urls : [urls]).map((url) =>
+            `<${url}>; rel="ice-server"` + (username !== undefined
+                ? `; username="${username}"; credential="${credential ?? ''}"; credential-type="password"`
+                : ''
+            )
+        )
+    );
+}
+
+/**
+ * Parses a trickle ICE SDP fragment (RFC 8840) into the candidates it contains.
+ */
+function parseSdpFragCandidates(sdpFrag: string): RTCIceCandidateInit[] {
+    const candidates: RTCIceCandidateInit[] = [];
+    let mid: string | undefined;
+
+    for (let line of sdpFrag.split(/\r?\n/)) {
+        if (line.startsWith('a=mid:')) {
+            mid = line.slice('a=mid:'.length).trim();
+        } else if (line.startsWith('a=candidate:')) {
+            candidates.push({
+                candidate: line.slice('a='.length).trim(),
+                sdpMid: mid,
+                sdpMLineIndex: mid === undefined ? 0 : undefined
+            });
+        }
+    }
+
+    return candidates;
+}
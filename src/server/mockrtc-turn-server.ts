@@ -0,0 +1,117 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import Turn = require('node-turn');
+
+import type { EmbeddedTurnServerOptions, MockRTCEventData, RTCIceServerOptions } from '../mockrtc';
+
+/**
+ * A local STUN/TURN server, run alongside a mock session so that relayed connections can
+ * be tested without any external infrastructure.
+ *
+ * Emits a `relay-allocated` event for each new relay allocation.
+ */
+export class MockRTCTurnServer extends EventEmitter {
+
+    private server: Turn | undefined;
+
+    private readonly bindAddress: string;
+    private readonly username: string;
+    private readonly password: string;
+    private port: number | undefined;
+
+    constructor(
+        private options: EmbeddedTurnServerOptions = {}
+    ) {
+        super();
+        this.bindAddress = options.bindAddress ?? '127.0.0.1';
+        this.username = options.username ?? 'mockrtc';
+        this.password = options.password ?? 'mockrtc';
+    }
+
+    async start() {
+        this.port = this.options.port ?? await getAvailableUdpPort(this.bindAddress);
+
+        this.server = new Turn({
+            listeningIps: [this.bindAddress],
+            listeningPort: this.port,
+            minPort: this.options.relayPortRange?.min,
+            maxPort: this.options.relayPortRange?.max,
+            authMech: 'long-term',
+            realm: 'mockrtc',
+            credentials: { [this.username]: this.password },
+            debugLevel: 'FATAL'
+        });
+
+        this.server.on('allocate', (msg, reply) => {
+            // Repeated requests within an existing allocation are just retransmissions:
+            if (msg.allocation) return;
+
+            // Node-Turn doesn't expose allocations directly, so we wait for the allocation request
+            // to succeed, at which point the allocation has been attached to the message:
+            const resolve = reply.resolve.bind(reply);
+            reply.resolve = () => {
+                resolve();
+
+                const { allocation } = msg;
+                if (!allocation) return;
+
+                this.emit('relay-allocated', {
+                    username: allocation.user.username,
+                    clientAddress: allocation.mappedAddress.address,
+                    clientPort: allocation.mappedAddress.port,
+                    relayAddress: allocation.relayedTransportAddress.address,
+                    relayPort: allocation.relayedTransportAddress.port,
+                    lifetime: allocation.lifetime,
+                    eventTimestamp: performance.now()
+                } as MockRTCEventData['relay-allocated']);
+            };
+        });
+
+        this.server.start();
+    }
+
+    async stop() {
+        if (!this.server) return;
+
+        // Node-Turn doesn't clean up allocations when stopped, so we have to do so ourselves:
+        Object.values(this.server.allocations).forEach((allocation) => {
+            clearTimeout(allocation.timer);
+            allocation.sockets.forEach((socket) => socket.close());
+        });
+
+        this.server.stop();
+        this.server = undefined;
+    }
+
+    /**
+     * The configuration required to use this server, in the same format as the browser's
+     * `RTCIceServer`. Only available once the server has started.
+     */
+    get iceServer(): RTCIceServerOptions {
+        if (!this.port) throw new Error("Can't get TURN server details before it has started");
+
+        const host = this.bindAddress === '0.0.0.0' ? '127.0.0.1' : this.bindAddress;
+        return {
+            urls: [`stun:${host}:${this.port}`, `turn:${host}:${this.port}`],
+            username: this.username,
+            credential: this.password
+        };
+    }
+
+}
+
+function getAvailableUdpPort(address: string) {
+    return new Promise<number>((resolve, reject) => {
+        const socket = dgram.createSocket('udp4');
+        socket.on('error', reject);
+        socket.bind(0, address, () => {
+            const { port } = socket.address();
+            socket.close(() => resolve(port));
+        });
+    });
+}
@@ -5,13 +5,15 @@
 
 import type { MockRTCSessionDescription } from './mockrtc';
 import type {
+    ConnectionMetadata,
     MockRTCPeer,
+    MockRTCSession,
     MockRTCExternalAnswerParams,
     MockRTCExternalOfferParams,
     MockRTCOfferParams
 } from "./mockrtc-peer";
 
-import { MOCKRTC_CONTROL_CHANNEL } from "./webrtc/control-channel";
+import { MockRTCControlMessage, MOCKRTC_CONTROL_CHANNEL } from "./webrtc/control-channel";
 
 type OfferPairParams = MockRTCExternalOfferParams & { realOffer: RTCSessionDescriptionInit };
 type AnswerPairParams = MockRTCExternalAnswerParams & { realAnswer: RTCSessionDescriptionInit };
@@ -57,15 +59,34 @@ type AnswerPairParams = MockRTCExternalAnswerParams & { realAnswer: RTCSessionDe
  * It is possible to proxy both real peers in a connection, potentially with different mock
  * peers so that they experience different behaviours during the connection.
  *
+ * If MockRTC needs to renegotiate the connection to the remote peer while proxying (e.g. to
+ * forward media tracks that the remote peer doesn't have yet) a `negotiationneeded` event
+ * is fired on the connection, and the page should renegotiate with the remote peer as usual.
+ *
+ * Connections are sent with `userAgent` and `sourceURL` metadata automatically. Any extra
+ * metadata provided here (e.g. a test name or tenant id) is sent too, so rules can match
+ * connections using it, with `withMetadata()` or `withMetadataMatching()`.
+ *
  * @category API
  */
-export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCPeer) {
+export function hookWebRTCConnection(
+    conn: RTCPeerConnection,
+    mockPeer: MockRTCPeer,
+    extraMetadata: ConnectionMetadata = {}
+) {
     // Anything that creates signalling data (createOffer/createAnswer) needs to be hooked to
     // return the params for the external connected.
     // Anything that sets params (setLocal/RemoteDescription) needs to be hooked to send those
     // params to the external connection, create new equivalent mock params for the mock connection
     // and give those to the internal connection.
 
+    // Read on each use, since the page URL may change during the connection's lifetime:
+    const getConnectionMetadata = (): ConnectionMetadata => ({
+        userAgent: navigator.userAgent,
+        sourceURL: window.location.href,
+        ...extraMetadata
+    });
+
     const _createOffer = conn.createOffer.bind(conn);
     const _createAnswer = conn.createAnswer.bind(conn);
     const _setLocalDescription = conn.setLocalDescription.bind(conn);
@@ -78,11 +99,31 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
     // The offer/answer we generated that we're actually using, once one is selected:
     let selectedDescription: OfferPairParams | AnswerPairParams | undefined;
 
+    // The session for the external connection to the remote peer, once an offer/answer is selected:
+    let selectExternalSession!: (session: MockRTCSession) => void;
+    const externalSession = new Promise<MockRTCSession>((resolve) => {
+        selectExternalSession = resolve;
+    });
+
     // A mirrored offer from the mock conn to the internal conn, mirroring an incoming offer we
     // received from the remote conn. This is stored so that when we pick an answer it can be
     // completed, and so that createAnswer can wait until generation is complete before running.
     let mockOffer: Promise<MockRTCOfferParams> | undefined;
 
+    // The internal connection should use the same ICE servers as the mock peer (e.g. MockRTC's
+    // embedded TURN server, if enabled). These must be configured before ICE gathering starts:
+    const mockIceServers = mockPeer.getIceServers().then((iceServers) => {
+        if (!iceServers.length) return;
+
+        const configuration = conn.getConfiguration();
+        conn.setConfiguration({
+            ...configuration,
+            iceServers: [...(configuration.iceServers ?? []), ...iceServers]
+        });
+    }).catch((e) => {
+        console.warn("Could not configure MockRTC ICE servers", e);
+    });
+
     // We create a control channel to communicate with MockRTC once the connection is set up.
     // That's created immediately, so its in the initial SDP, to avoid later negotation.
     const controlChannel = conn.createDataChannel(MOCKRTC_CONTROL_CHANNEL);
@@ -95,7 +136,47 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
         }));
     });
 
+    // MockRTC may also need to renegotiate the external connection to the remote peer, e.g. to add
+    // media tracks that the mock connection has but the remote peer doesn't. Only the page can signal
+    // the remote peer, so we fire 'negotiationneeded', and the page's usual negotiation completes it:
+    // createOffer returns this offer, and the answer passed to setRemoteDescription is sent back.
+    let pendingExternalOffer: RTCSessionDescriptionInit | undefined;
+
+    // MockRTC may renegotiate the internal connection via the control channel, e.g. to add media
+    // tracks when proxying to a remote peer that has tracks the mock connection doesn't. That's
+    // negotiated directly with the real connection, without the page's own signalling, but the page
+    // does still see its effects, e.g. 'track' events and signalling state changes:
+    controlChannel.addEventListener('message', async ({ data }) => {
+        const message = JSON.parse(data) as MockRTCControlMessage;
+
+        if (message.type === 'renegotiate-external-offer') {
+            pendingExternalOffer = message.offer;
+            conn.dispatchEvent(new Event('negotiationneeded'));
+            return;
+        }
+
+        if (message.type !== 'renegotiate-offer') return;
+
+        try {
+            await _setRemoteDescription(message.offer);
+            const answer = await _createAnswer();
+            await _setLocalDescription(answer);
+
+            controlChannel.send(JSON.stringify({
+                type: 'renegotiate-answer',
+                answer: { type: answer.type, sdp: answer.sdp }
+            }));
+        } catch (e: any) {
+            controlChannel.send(JSON.stringify({
+                type: 'error',
+                error: e.message || e
+            }));
+        }
+    });
+
     conn.createOffer = (async (options: RTCOfferOptions) => {
+        if (pendingExternalOffer) return pendingExternalOffer;
+
         const realOffer = await _createOffer(options);
         const externalOfferParams = await mockPeer.createExternalOffer({
             mirrorSDP: realOffer.sdp!
@@ -127,16 +208,23 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
             }
         }
 
+        await mockIceServers;
+
         // When we set an offer or answer locally, it must be the external offer/answer we've
         // generated to send to the other peer. We swap it back for a real equivalent that will
         // connect us to the mock peer instead:
-        if (localDescription.type === 'offer') {
+        if (localDescription.type === 'offer' && localDescription.sdp === pendingExternalOffer?.sdp) {
+            // Renegotiating the external connection only - the real connection is unaffected:
+            pendingLocalDescription = localDescription;
+        } else if (localDescription.type === 'offer') {
             pendingLocalDescription = localDescription;
             selectedDescription = pendingCreatedOffers[localDescription.sdp!];
+            selectExternalSession(selectedDescription.session);
             const { realOffer } = selectedDescription;
             await _setLocalDescription(realOffer);
         } else {
             selectedDescription = pendingCreatedAnswers[localDescription.sdp!];
+            selectExternalSession(selectedDescription.session);
             const { realAnswer } = selectedDescription;
             await Promise.all([
                 // Complete the mock side of the internal connection:
@@ -163,13 +251,22 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
             mockOffer = mockPeer.createOffer({
                 mirrorSDP: remoteDescription.sdp,
                 addDataStream: true,
-                connectionMetadata: {
-                    userAgent: navigator.userAgent,
-                    sourceURL: window.location.href
-                }
+                connectionMetadata: getConnectionMetadata()
             });
 
             await _setRemoteDescription((await mockOffer).offer);
+        } else if (pendingExternalOffer) {
+            // An answer to MockRTC's external renegotiation offer, which we pass back to complete it:
+            controlChannel.send(JSON.stringify({
+                type: 'renegotiate-external-answer',
+                answer: { type: remoteDescription.type, sdp: remoteDescription.sdp }
+            }));
+            pendingExternalOffer = undefined;
+
+            currentLocalDescription = pendingLocalDescription;
+            currentRemoteDescription = remoteDescription;
+            pendingLocalDescription = null;
+            pendingRemoteDescription = null;
         } else {
             // We have an answer - we must've sent an offer, complete & use that:
             const { setAnswer, realOffer } = selectedDescription as OfferPairParams;
@@ -179,10 +276,7 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
                 // Complete the internal <-> mock connection:
                 mockPeer.answerOffer(realOffer, {
                     mirrorSDP: remoteDescription.sdp,
-                    connectionMetadata: {
-                        userAgent: navigator.userAgent,
-                        sourceURL: window.location.href
-                    }
+                    connectionMetadata: getConnectionMetadata()
                 }).then(({ answer }) => _setRemoteDescription(answer))
             ]);
 
@@ -222,15 +316,46 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
         get: () => conn.pendingRemoteDescription ?? conn.currentRemoteDescription
     });
 
+    // The real connection's ICE candidates are for its connection to the mock connection, which
+    // doesn't need them, so we hide them from the page entirely. Instead, the page sees the external
+    // connection's candidates, which can be signalled to the remote peer to connect to MockRTC:
+    const externalCandidateEvents = new WeakSet<Event>();
+    let onIceCandidate: ((event: RTCPeerConnectionIceEvent) => void) | null = null;
+
+    conn.addEventListener('icecandidate', (event) => {
+        if (!externalCandidateEvents.has(event)) {
+            event.stopImmediatePropagation();
+        } else {
+            onIceCandidate?.call(conn, event);
+        }
+    });
+
     Object.defineProperty(conn, 'onicecandidate', {
-        get: () => {},
-        set: () => {} // Ignore this completely - never call the callback
+        get: () => onIceCandidate,
+        set: (callback) => { onIceCandidate = callback; }
     });
 
-    // For now we ignore incoming ice candidates. They're really intended for the external connection,
-    // not us, but also they're rarely necessary since we should be using local connections and MockRTC
-    // itself always waits rather than trickling candidates.
-    conn.addIceCandidate = () => Promise.resolve();
+    externalSession.then((session) => session.onLocalIceCandidate((candidate) => {
+        const event = new RTCPeerConnectionIceEvent('icecandidate', {
+            candidate: candidate && new RTCIceCandidate(candidate)
+        });
+        externalCandidateEvents.add(event);
+        conn.dispatchEvent(event);
+    })).catch((error) => {
+        console.warn('Failed to subscribe to MockRTC ICE candidates', error);
+    });
+
+    // Incoming candidates are from the remote peer, and so are intended for the external connection. We
+    // forward them there asynchronously, since they may arrive before the external connection has been
+    // created (and we can't block here, as the page may wait for this before creating its answer).
+    conn.addIceCandidate = ((candidate?: RTCIceCandidateInit | null) => {
+        externalSession.then((session) =>
+            session.addIceCandidate(candidate ?? null)
+        ).catch((error) => {
+            console.warn('Failed to forward ICE candidate to MockRTC', error);
+        });
+        return Promise.resolve();
+    }) as any;
 }
 
 /**
@@ -238,15 +363,18 @@ export function hookWebRTCConnection(conn: RTCPeerConnection, mockPeer: MockRTCP
  * created after this function is called, and redirect all their traffic to the
  * provided MockRTCPeer.
  *
+ * Any extra metadata provided is sent with every hooked connection, as in
+ * {@link hookWebRTCConnection}.
+ *
  * @category API
  */
-export function hookAllWebRTC(mockPeer: MockRTCPeer) {
+export function hookAllWebRTC(mockPeer: MockRTCPeer, extraMetadata: ConnectionMetadata = {}) {
     // The original constructor
     const _RTCPeerConnection = window.RTCPeerConnection;
 
     window.RTCPeerConnection = function (this: RTCPeerConnection) {
         const connection = new _RTCPeerConnection(...arguments);
-        hookWebRTCConnection(connection, mockPeer);
+        hookWebRTCConnection(connection, mockPeer, extraMetadata);
         return connection;
     } as any;
 
@@ -10,4 +10,8 @@ export const MOCKRTC_CONTROL_CHANNEL = "mockrtc.control-channel";
 // The type of valid messages that can be sent on a control channel:
 export type MockRTCControlMessage =
     | { type: 'error', error: string }
-    | { type: 'attach-external', id: string }
\ No newline at end of file
+    | { type: 'attach-external', id: string }
+    | { type: 'renegotiate-offer', offer: RTCSessionDescriptionInit }
+    | { type: 'renegotiate-answer', answer: RTCSessionDescriptionInit }
+    | { type: 'renegotiate-external-offer', offer: RTCSessionDescriptionInit }
+    | { type: 'renegotiate-external-answer', answer: RTCSessionDescriptionInit }
\ No newline at end of file
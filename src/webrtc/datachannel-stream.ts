@@ -6,6 +6,8 @@
 import * as stream from 'stream';
 import type * as NodeDataChannel from 'node-datachannel';
 
+import type { NetworkImpairment } from './network-impairment';
+
 /**
  * Turns a node-datachannel DataChannel into a real Node.js stream, complete with
  * buffering, backpressure (up to a point - if the buffer fills up, messages are dropped),
@@ -70,6 +72,12 @@ export class DataChannelStream extends stream.Duplex {
         }
     }
 
+    /**
+     * If set, all written messages are delayed and/or dropped according to this impairment's
+     * current network conditions.
+     */
+    networkImpairment: NetworkImpairment | undefined;
+
     private _isOpen = false;
     get isOpen() {
         return this._isOpen;
@@ -84,23 +92,41 @@ export class DataChannelStream extends stream.Duplex {
 
     /** @internal */
     _write(chunk: string | Buffer | unknown, encoding: string, callback: (error: Error | null) => void) {
+        if (!Buffer.isBuffer(chunk) && typeof chunk !== 'string') {
+            const typeName = (chunk as object).constructor.name || typeof chunk;
+            return callback(new Error(`Cannot write ${typeName} to DataChannel stream`));
+        }
+
+        if (this.networkImpairment?.isActive) {
+            this.networkImpairment.schedule(Buffer.byteLength(chunk), () => {
+                if (this.destroyed) return; // Closed while the message was in flight
+                this.writeMessage(chunk, (error) => {
+                    if (error) this.destroy(error);
+                });
+            }, { reliable: true });
+
+            // The message is now 'on the network', so we're ready for more data immediately. The
+            // impairment keeps messages in order & enforces any bandwidth limit, and later send
+            // failures destroy the stream instead:
+            return callback(null);
+        }
+
+        this.writeMessage(chunk, callback);
+    }
+
+    private writeMessage(chunk: string | Buffer, callback: (error: Error | null) => void) {
         let sentOk: boolean;
 
         try {
-            if (Buffer.isBuffer(chunk)) {
-                sentOk = this.rawChannel.sendMessageBinary(chunk);
-            } else if (typeof chunk === 'string') {
-                sentOk = this.rawChannel.sendMessage(chunk);
-            } else {
-                const typeName = (chunk as object).constructor.name || typeof chunk;
-                throw new Error(`Cannot write ${typeName} to DataChannel stream`);
-            }
-
-            this.emit('wrote-data', chunk);
+            sentOk = Buffer.isBuffer(chunk)
+                ? this.rawChannel.sendMessageBinary(chunk)
+                : this.rawChannel.sendMessage(chunk);
         } catch (err: any) {
             return callback(err);
         }
 
+        this.emit('wrote-data', chunk);
+
         if (sentOk) {
             callback(null);
         } else {
@@ -0,0 +1,340 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomInt } from 'crypto';
+import type * as SDP from 'sdp-transform';
+
+import { MediaTrackStream } from './mediatrack-stream';
+import { buildRtpPacket, isRtpPacket } from './rtp';
+
+// Conservative max RTP payload size, to stay well under typical path MTUs once
+// RTP, SRTP, UDP & IP overheads are included.
+const MAX_RTP_PAYLOAD_SIZE = 1100;
+
+export type MediaSourceFormat = 'ivf' | 'ogg' | 'pcap';
+
+/**
+ * A timed set of RTP packets, to be sent together at the given time (in milliseconds,
+ * relative to the start of playback).
+ */
+interface ScheduledPackets {
+    time: number;
+    packets: Buffer[];
+}
+
+export function getMediaSourceFormat(source: string): MediaSourceFormat {
+    const extension = path.extname(source).toLowerCase();
+    if (extension === '.ivf') return 'ivf';
+    if (extension === '.ogg' || extension === '.opus') return 'ogg';
+    if (extension === '.pcap') return 'pcap';
+
+    throw new Error(`Unrecognized media file type for ${source}. Only .ivf, .ogg & .pcap files are supported.`);
+}
+
+/**
+ * The kind of track that the given file format can be played into, if that can be
+ * determined from the format alone.
+ */
+export function getMediaSourceKind(format: MediaSourceFormat): 'audio' | 'video' | undefined {
+    if (format === 'ivf') return 'video';
+    if (format === 'ogg') return 'audio';
+    return undefined; // Captured RTP could contain anything
+}
+
+/**
+ * Reads the frames from a VP8 IVF file, with their presentation time in milliseconds.
+ */
+function readIvfFrames(data: Buffer) {
+    if (data.toString('ascii', 0, 4) !== 'DKIF') throw new Error('Invalid IVF file');
+
+    const headerLength = data.readUInt16LE(6);
+    const fourcc = data.toString('ascii', 8, 12);
+    if (fourcc !== 'VP80') throw new Error(`Unsupported IVF codec ${fourcc}, only VP8 is supported`);
+
+    const timebaseDenominator = data.readUInt32LE(16);
+    const timebaseNumerator = data.readUInt32LE(20);
+
+    const frames: Array<{ time: number, data: Buffer }> = [];
+    let offset = headerLength;
+    while (offset + 12 <= data.byteLength) {
+        const frameLength = data.readUInt32LE(offset);
+        const pts = Number(data.readBigUInt64LE(offset + 4));
+        offset += 12;
+
+        frames.push({
+            time: pts * timebaseNumerator / timebaseDenominator * 1000,
+            data: data.subarray(offset, offset + frameLength)
+        });
+        offset += frameLength;
+    }
+
+    return frames;
+}
+
+/**
+ * Reads the raw packets from an Ogg file, skipping the Opus header packets.
+ */
+function readOggOpusPackets(data: Buffer) {
+    const packets: Buffer[] = [];
+    let pendingPacketSegments: Buffer[] = [];
+
+    let offset = 0;
+    while (offset + 27 <= data.byteLength) {
+        if (data.toString('ascii', offset, offset + 4) !== 'OggS') {
+            throw new Error(`Invalid Ogg page at offset ${offset}`);
+        }
+
+        const segmentCount = data[offset + 26];
+        const segmentTable = data.subarray(offset + 27, offset + 27 + segmentCount);
+        offset += 27 + segmentCount;
+
+        for (const segmentLength of segmentTable) {
+            pendingPacketSegments.push(data.subarray(offset, offset + segmentLength));
+            offset += segmentLength;
+
+            // Segments shorter than 255 bytes complete a packet:
+            if (segmentLength < 255) {
+                packets.push(Buffer.concat(pendingPacketSegments));
+                pendingPacketSegments = [];
+            }
+        }
+    }
+
+    const [opusHead, opusTags] = packets;
+    if (opusHead?.toString('ascii', 0, 8) !== 'OpusHead') throw new Error('Ogg file does not contain Opus audio');
+    if (opusTags?.toString('ascii', 0, 8) !== 'OpusTags') throw new Error('Invalid Ogg Opus file');
+
+    return packets.slice(2);
+}
+
+/**
+ * Gets the duration of an Opus packet in milliseconds, as defined by its TOC byte (RFC 6716).
+ */
+export function getOpusPacketDuration(packet: Buffer) {
+    const config = packet[0] >> 3;
+    const frameDuration = config < 12
+        ? [10, 20, 40, 60][config % 4] // SILK-only
+        : config < 16
+            ? [10, 20][config % 2] // Hybrid
+            : [2.5, 5, 10, 20][config % 4]; // CELT-only
+
+    const frameCountCode = packet[0] & 0x03;
+    const frameCount = frameCountCode === 0
+        ? 1
+        : frameCountCode < 3
+            ? 2
+            : packet[1] & 0x3f;
+
+    return frameDuration * frameCount;
+}
+
+/**
+ * Reads all RTP packets (of the first RTP stream found) from a pcap capture, with their
+ * capture time in milliseconds, relative to the first packet.
+ */
+function readPcapRtpPackets(data: Buffer) {
+    const magic = data.readUInt32LE(0);
+    const isLittleEndian = magic === 0xa1b2c3d4 || magic === 0xa1b23c4d;
+    const isNanosecond = magic === 0xa1b23c4d || magic === 0x4d3cb2a1;
+    if (!isLittleEndian && magic !== 0xd4c3b2a1 && magic !== 0x4d3cb2a1) {
+        throw new Error('Invalid pcap file (pcapng files are not supported)');
+    }
+
+    const readUInt32 = (offset: number) => isLittleEndian
+        ? data.readUInt32LE(offset)
+        : data.readUInt32BE(offset);
+
+    const linkType = readUInt32(20);
+
+    const packets: Array<{ time: number, packet: Buffer }> = [];
+    let streamSsrc: number | undefined;
+    let firstPacketTime: number | undefined;
+
+    let offset = 24;
+    while (offset + 16 <= data.byteLength) {
+        const timestamp = readUInt32(offset) * 1000 +
+            readUInt32(offset + 4) / (isNanosecond ? 1_000_000 : 1000);
+        const capturedLength = readUInt32(offset + 8);
+        const frame = data.subarray(offset + 16, offset + 16 + capturedLength);
+        offset += 16 + capturedLength;
+
+        const udpPayload = getUdpPayload(frame, linkType);
+        if (!udpPayload || !isRtpPacket(udpPayload)) continue;
+
+        const ssrc = udpPayload.readUInt32BE(8);
+        streamSsrc ??= ssrc;
+        if (ssrc !== streamSsrc) continue;
+
+        firstPacketTime ??= timestamp;
+        packets.push({ time: timestamp - firstPacketTime, packet: udpPayload });
+    }
+
+    return packets;
+}
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const ETHERTYPE_VLAN = 0x8100;
+const IP_PROTOCOL_UDP = 17;
+
+function getUdpPayload(frame: Buffer, linkType: number): Buffer | undefined {
+    let etherType: number;
+    let ipOffset: number;
+
+    if (linkType === 1) { // Ethernet
+        etherType = frame.readUInt16BE(12);
+        ipOffset = 14;
+        while (etherType === ETHERTYPE_VLAN) {
+            etherType = frame.readUInt16BE(ipOffset + 2);
+            ipOffset += 4;
+        }
+    } else if (linkType === 113) { // Linux cooked capture v1
+        etherType = frame.readUInt16BE(14);
+        ipOffset = 16;
+    } else if (linkType === 276) { // Linux cooked capture v2
+        etherType = frame.readUInt16BE(0);
+        ipOffset = 20;
+    } else if (linkType === 0) { // BSD loopback
+        const family = frame.readUInt32LE(0);
+        etherType = family === 2 ? ETHERTYPE_IPV4 : ETHERTYPE_IPV6;
+        ipOffset = 4;
+    } else if (linkType === 101 || linkType === 12) { // Raw IP
+        etherType = frame[0] >> 4 === 4 ? ETHERTYPE_IPV4 : ETHERTYPE_IPV6;
+        ipOffset = 0;
+    } else {
+        throw new Error(`Unsupported pcap link type: ${linkType}`);
+    }
+
+    let udpOffset: number;
+    if (etherType === ETHERTYPE_IPV4) {
+        if (frame[ipOffset + 9] !== IP_PROTOCOL_UDP) return;
+        udpOffset = ipOffset + (frame[ipOffset] & 0x0f) * 4;
+    } else if (etherType === ETHERTYPE_IPV6) {
+        if (frame[ipOffset + 6] !== IP_PROTOCOL_UDP) return; // IPv6 extension headers are not supported
+        udpOffset = ipOffset + 40;
+    } else {
+        return;
+    }
+
+    return frame.subarray(udpOffset + 8);
+}
+
+/**
+ * Splits a VP8 frame into RTP payloads, each with a VP8 payload descriptor (RFC 7741).
+ */
+function packetizeVp8Frame(frame: Buffer): Buffer[] {
+    const payloads: Buffer[] = [];
+    const maxChunkSize = MAX_RTP_PAYLOAD_SIZE - 1;
+
+    for (let offset = 0; offset < frame.byteLength; offset += maxChunkSize) {
+        const isPartitionStart = offset === 0;
+        payloads.push(Buffer.concat([
+            Buffer.from([isPartitionStart ? 0x10 : 0x00]), // S bit set on the first packet, PID 0
+            frame.subarray(offset, offset + maxChunkSize)
+        ]));
+    }
+
+    return payloads;
+}
+
+function getPayloadType(media: SDP.MediaDescription | undefined, codec: string) {
+    const rtpMapping = media?.rtp.find((rtp) => rtp.codec.toLowerCase() === codec.toLowerCase());
+    if (!rtpMapping) {
+        throw new Error(`Cannot play ${codec} media, as ${codec} was not negotiated for track ${media?.mid}`);
+    }
+    return rtpMapping.payload;
+}
+
+function getSsrc(media: SDP.MediaDescription | undefined) {
+    const ssrc = media?.ssrcs?.[0]?.id;
+    return ssrc !== undefined
+        ? Number(ssrc)
+        : randomInt(2 ** 32 - 1);
+}
+
+async function buildPacketSchedule(
+    source: string,
+    format: MediaSourceFormat,
+    media: SDP.MediaDescription | undefined
+): Promise<ScheduledPackets[]> {
+    const data = await fs.readFile(source);
+
+    if (format === 'pcap') {
+        // Recorded RTP is replayed as-is, with the original timing:
+        return readPcapRtpPackets(data).map(({ time, packet }) => ({ time, packets: [packet] }));
+    }
+
+    const ssrc = getSsrc(media);
+    let sequenceNumber = randomInt(2 ** 16);
+    const initialTimestamp = randomInt(2 ** 32 - 1);
+
+    if (format === 'ivf') {
+        const payloadType = getPayloadType(media, 'VP8');
+
+        return readIvfFrames(data).map(({ time, data: frame }) => {
+            const payloads = packetizeVp8Frame(frame);
+            return {
+                time,
+                packets: payloads.map((payload, i) => buildRtpPacket({
+                    marker: i === payloads.length - 1, // Marker bit indicates the end of the frame
+                    payloadType,
+                    sequenceNumber: sequenceNumber++,
+                    timestamp: initialTimestamp + Math.round(time * 90), // 90kHz video clock
+                    ssrc,
+                    payload
+                }))
+            };
+        });
+    } else {
+        const payloadType = getPayloadType(media, 'opus');
+
+        let time = 0;
+        return readOggOpusPackets(data).map((payload) => {
+            const packetTime = time;
+            time += getOpusPacketDuration(payload);
+
+            return {
+                time: packetTime,
+                packets: [buildRtpPacket({
+                    marker: false,
+                    payloadType,
+                    sequenceNumber: sequenceNumber++,
+                    timestamp: initialTimestamp + Math.round(packetTime * 48), // 48kHz Opus clock
+                    ssrc,
+                    payload
+                })]
+            };
+        });
+    }
+}
+
+/**
+ * Reads a media file, and sends its content as RTP packets on the given media track, with
+ * the timing defined by the file. The media description (from the local SDP) is used to
+ * pick the negotiated payload type & SSRC for the generated packets.
+ *
+ * The returned promise resolves once all the media has been sent, or the track closes.
+ */
+export async function playMediaFile(
+    track: MediaTrackStream,
+    source: string,
+    media: SDP.MediaDescription | undefined
+): Promise<void> {
+    const format = getMediaSourceFormat(source);
+    const schedule = await buildPacketSchedule(source, format, media);
+
+    const startTime = performance.now();
+    for (const { time, packets } of schedule) {
+        const remainingDelay = startTime + time - performance.now();
+        if (remainingDelay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, remainingDelay));
+        }
+
+        if (track.destroyed) return;
+        packets.forEach((packet) => track.write(packet));
+    }
+}
@@ -0,0 +1,490 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type * as SDP from 'sdp-transform';
+
+import type { MediaRecordingOptions } from '../mockrtc';
+import { MediaTrackStream } from './mediatrack-stream';
+import { getOpusPacketDuration } from './media-playback';
+import { isRtpPacket, parseRtpPacket, RtpPacket } from './rtp';
+
+type VideoCodec = 'VP8' | 'VP9' | 'H264';
+
+/**
+ * A writer for a single media file. Writes are queued internally, so callers don't need
+ * to wait for each write to complete before writing more data.
+ */
+interface MediaFileWriter {
+    writePacket(packet: Buffer, receivedAt: number): void;
+
+    /**
+     * Completes the file, resolving with the number of frames (or for pcap files, packets)
+     * written, or rejecting with the first error that occurred while writing.
+     */
+    close(): Promise<number>;
+}
+
+/**
+ * Wraps a file handle, serializing all writes and tracking the current write position.
+ *
+ * If any write fails, all later writes are skipped, and the first error is thrown when the
+ * file is closed.
+ */
+class QueuedFile {
+
+    private queue: Promise<void>;
+    private handle: Promise<fs.FileHandle>;
+    private error: unknown;
+
+    constructor(filePath: string) {
+        this.handle = fs.mkdir(path.dirname(filePath), { recursive: true })
+            .then(() => fs.open(filePath, 'w'));
+        this.queue = this.handle.then(() => {}, (error) => { this.error = error; });
+    }
+
+    private enqueue(write: (handle: fs.FileHandle) => Promise<unknown>) {
+        this.queue = this.queue.then(async () => {
+            if (this.error) return;
+            await write(await this.handle);
+        }).catch((error) => {
+            this.error ??= error;
+        });
+    }
+
+    append(data: Buffer) {
+        this.enqueue((handle) => handle.write(data));
+    }
+
+    writeAt(data: Buffer, position: number) {
+        this.enqueue((handle) => handle.write(data, 0, data.byteLength, position));
+    }
+
+    async close() {
+        await this.queue;
+
+        const handle = await this.handle.catch(() => undefined);
+        await handle?.close();
+
+        if (this.error) throw this.error;
+    }
+
+}
+
+/**
+ * Reassembles RTP packets into complete frames. Packets are assumed to arrive in order,
+ * and each frame is completed by a packet with the marker bit set, or the start of the
+ * next frame (a packet with a different timestamp).
+ */
+class FrameAssembler {
+
+    private payloads: Buffer[] = [];
+    private timestamp: number | undefined;
+
+    constructor(
+        private depacketize: (payload: Buffer) => Buffer,
+        private onFrame: (frame: Buffer, timestamp: number) => void
+    ) {}
+
+    addPacket(packet: RtpPacket) {
+        if (this.timestamp !== undefined && packet.timestamp !== this.timestamp) this.flush();
+
+        this.timestamp = packet.timestamp;
+        this.payloads.push(this.depacketize(packet.payload));
+
+        if (packet.marker) this.flush();
+    }
+
+    flush() {
+        if (this.timestamp !== undefined && this.payloads.length) {
+            this.onFrame(Buffer.concat(this.payloads), this.timestamp);
+        }
+        this.payloads = [];
+        this.timestamp = undefined;
+    }
+
+}
+
+// Strips the VP8 payload descriptor (RFC 7741)
+function depacketizeVp8(payload: Buffer) {
+    let offset = 1;
+    if (payload[0] & 0x80) { // Extended control bits present
+        const extension = payload[offset++];
+        if (extension & 0x80) offset += payload[offset] & 0x80 ? 2 : 1; // PictureID
+        if (extension & 0x40) offset += 1; // TL0PICIDX
+        if (extension & 0x30) offset += 1; // TID/KEYIDX
+    }
+    return payload.subarray(offset);
+}
+
+// Strips the VP9 payload descriptor (RFC 9628)
+function depacketizeVp9(payload: Buffer) {
+    const descriptor = payload[0];
+    const hasPictureId = !!(descriptor & 0x80);
+    const isInterPicturePredicted = !!(descriptor & 0x40);
+    const hasLayerIndices = !!(descriptor & 0x20);
+    const isFlexibleMode = !!(descriptor & 0x10);
+    const hasScalabilityStructure = !!(descriptor & 0x02);
+
+    let offset = 1;
+    if (hasPictureId) offset += payload[offset] & 0x80 ? 2 : 1;
+    if (hasLayerIndices) offset += isFlexibleMode ? 1 : 2;
+    if (isFlexibleMode && isInterPicturePredicted) {
+        // Up to 3 reference indices, each flagging whether another follows:
+        while (payload[offset++] & 0x01);
+    }
+
+    if (hasScalabilityStructure) {
+        const structure = payload[offset++];
+        const spatialLayerCount = (structure >> 5) + 1;
+        const hasResolutions = !!(structure & 0x10);
+        const hasPictureGroup = !!(structure & 0x08);
+
+        if (hasResolutions) offset += spatialLayerCount * 4;
+        if (hasPictureGroup) {
+            const pictureCount = payload[offset++];
+            for (let i = 0; i < pictureCount; i++) {
+                const referenceCount = (payload[offset++] >> 2) & 0x03;
+                offset += referenceCount;
+            }
+        }
+    }
+
+    return payload.subarray(offset);
+}
+
+const ANNEX_B_START_CODE = Buffer.from([0, 0, 0, 1]);
+
+// Converts H264 RTP payloads (RFC 6184) into Annex B NAL units
+function depacketizeH264(payload: Buffer) {
+    const nalType = payload[0] & 0x1f;
+
+    if (nalType === 24) { // STAP-A: multiple complete NAL units
+        const nalUnits: Buffer[] = [];
+        let offset = 1;
+        while (offset + 2 <= payload.byteLength) {
+            const nalLength = payload.readUInt16BE(offset);
+            offset += 2;
+            nalUnits.push(ANNEX_B_START_CODE, payload.subarray(offset, offset + nalLength));
+            offset += nalLength;
+        }
+        return Buffer.concat(nalUnits);
+    } else if (nalType === 28) { // FU-A: a fragment of a single NAL unit
+        const isStart = !!(payload[1] & 0x80);
+        const fragment = payload.subarray(2);
+        if (!isStart) return fragment;
+
+        const nalHeader = (payload[0] & 0xe0) | (payload[1] & 0x1f);
+        return Buffer.concat([ANNEX_B_START_CODE, Buffer.from([nalHeader]), fragment]);
+    } else { // A single complete NAL unit
+        return Buffer.concat([ANNEX_B_START_CODE, payload]);
+    }
+}
+
+const VIDEO_DEPACKETIZERS: { [codec in VideoCodec]: (payload: Buffer) => Buffer } = {
+    'VP8': depacketizeVp8,
+    'VP9': depacketizeVp9,
+    'H264': depacketizeH264
+};
+
+const IVF_FOURCCS: { [codec in VideoCodec]: string } = {
+    'VP8': 'VP80',
+    'VP9': 'VP90',
+    'H264': 'H264'
+};
+
+const RTP_VIDEO_CLOCK_RATE = 90000;
+
+function createIvfWriter(filePath: string, codec: VideoCodec, payloadType: number): MediaFileWriter {
+    const file = new QueuedFile(filePath);
+
+    const header = Buffer.alloc(32);
+    header.write('DKIF', 0, 'ascii');
+    header.writeUInt16LE(0, 4); // Version
+    header.writeUInt16LE(32, 6); // Header length
+    header.write(IVF_FOURCCS[codec], 8, 'ascii');
+    // Width & height (offsets 12 & 14) are left as 0: decoders read these from the bitstream.
+    header.writeUInt32LE(RTP_VIDEO_CLOCK_RATE, 16); // Timebase denominator
+    header.writeUInt32LE(1, 20); // Timebase numerator
+    file.append(header);
+
+    let frameCount = 0;
+    let firstTimestamp: number | undefined;
+
+    const assembler = new FrameAssembler(VIDEO_DEPACKETIZERS[codec], (frame, timestamp) => {
+        firstTimestamp ??= timestamp;
+
+        const frameHeader = Buffer.alloc(12);
+        frameHeader.writeUInt32LE(frame.byteLength, 0);
+        // Unsigned subtraction handles RTP timestamp wraparound:
+        frameHeader.writeBigUInt64LE(BigInt((timestamp - firstTimestamp) >>> 0), 4);
+
+        file.append(Buffer.concat([frameHeader, frame]));
+        frameCount += 1;
+    });
+
+    return {
+        writePacket(data: Buffer) {
+            const packet = parseRtpPacket(data);
+            if (packet.payloadType !== payloadType) return; // Skip RTX, FEC, etc
+            assembler.addPacket(packet);
+        },
+        async close() {
+            assembler.flush();
+
+            const frameCountData = Buffer.alloc(4);
+            frameCountData.writeUInt32LE(frameCount);
+            file.writeAt(frameCountData, 24);
+
+            await file.close();
+            return frameCount;
+        }
+    };
+}
+
+// The CRC used by Ogg pages: polynomial 0x04c11db7, with no reflection or final XOR
+const OGG_CRC_TABLE = Array.from({ length: 256 }, (_, i) => {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80000000
+            ? (crc << 1) ^ 0x04c11db7
+            : crc << 1;
+    }
+    return crc >>> 0;
+});
+
+function getOggCrc(data: Buffer) {
+    let crc = 0;
+    for (const byte of data) {
+        crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+    }
+    return crc;
+}
+
+const OGG_FLAG_BOS = 0x02;
+const OGG_FLAG_EOS = 0x04;
+
+function createOggOpusWriter(filePath: string, channelCount: number, payloadType: number): MediaFileWriter {
+    const file = new QueuedFile(filePath);
+    const serialNumber = Math.floor(Math.random() * 2 ** 32);
+    let pageSequence = 0;
+
+    const writePage = (packet: Buffer, granulePosition: number, flags = 0) => {
+        const segmentTable: number[] = [];
+        let remaining = packet.byteLength;
+        while (remaining >= 255) {
+            segmentTable.push(255);
+            remaining -= 255;
+        }
+        if (packet.byteLength || !(flags & OGG_FLAG_EOS)) segmentTable.push(remaining);
+
+        const header = Buffer.alloc(27);
+        header.write('OggS', 0, 'ascii');
+        header[5] = flags;
+        header.writeBigUInt64LE(BigInt(granulePosition), 6);
+        header.writeUInt32LE(serialNumber, 14);
+        header.writeUInt32LE(pageSequence++, 18);
+        header[26] = segmentTable.length;
+
+        const page = Buffer.concat([header, Buffer.from(segmentTable), packet]);
+        page.writeUInt32LE(getOggCrc(page), 22);
+        file.append(page);
+    };
+
+    const opusHead = Buffer.alloc(19);
+    opusHead.write('OpusHead', 0, 'ascii');
+    opusHead[8] = 1; // Version
+    opusHead[9] = channelCount;
+    opusHead.writeUInt16LE(0, 10); // Pre-skip
+    opusHead.writeUInt32LE(48000, 12); // Original sample rate
+    opusHead.writeInt16LE(0, 16); // Output gain
+    opusHead[18] = 0; // Channel mapping family
+    writePage(opusHead, 0, OGG_FLAG_BOS);
+
+    const opusTags = Buffer.alloc(16);
+    opusTags.write('OpusTags', 0, 'ascii');
+    opusTags.writeUInt32LE(0, 8); // Vendor string length
+    opusTags.writeUInt32LE(0, 12); // User comment count
+    writePage(opusTags, 0);
+
+    let firstTimestamp: number | undefined;
+    let granulePosition = 0;
+    let frameCount = 0;
+
+    return {
+        writePacket(data: Buffer) {
+            const packet = parseRtpPacket(data);
+            if (packet.payloadType !== payloadType || !packet.payload.byteLength) return;
+
+            firstTimestamp ??= packet.timestamp;
+            // Opus RTP always uses a 48kHz clock, matching the Ogg granule rate. We use the RTP
+            // timestamp as the packet position, so that any gaps (e.g. from DTX) are preserved:
+            const packetPosition = (packet.timestamp - firstTimestamp) >>> 0;
+            granulePosition = packetPosition + getOpusPacketDuration(packet.payload) * 48;
+
+            writePage(packet.payload, granulePosition);
+            frameCount += 1;
+        },
+        async close() {
+            writePage(Buffer.alloc(0), granulePosition, OGG_FLAG_EOS);
+            await file.close();
+            return frameCount;
+        }
+    };
+}
+
+function getIpChecksum(header: Buffer) {
+    let sum = 0;
+    for (let i = 0; i < header.byteLength; i += 2) {
+        sum += header.readUInt16BE(i);
+    }
+    while (sum > 0xffff) sum = (sum & 0xffff) + (sum >>> 16);
+    return ~sum & 0xffff;
+}
+
+// The fake addresses used to wrap recorded RTP in UDP/IP packets, so tools like Wireshark can read it:
+const PCAP_SOURCE_ADDRESS = [127, 0, 0, 1];
+const PCAP_DESTINATION_ADDRESS = [127, 0, 0, 2];
+const PCAP_RTP_PORT = 5004;
+const PCAP_LINKTYPE_RAW_IP = 101;
+
+function createPcapWriter(filePath: string): MediaFileWriter {
+    const file = new QueuedFile(filePath);
+
+    const header = Buffer.alloc(24);
+    header.writeUInt32LE(0xa1b2c3d4, 0); // Magic number (microsecond resolution)
+    header.writeUInt16LE(2, 4); // Major version
+    header.writeUInt16LE(4, 6); // Minor version
+    header.writeUInt32LE(65535, 16); // Snapshot length
+    header.writeUInt32LE(PCAP_LINKTYPE_RAW_IP, 20);
+    file.append(header);
+
+    let packetCount = 0;
+
+    return {
+        writePacket(data: Buffer, receivedAt: number) {
+            const ipHeader = Buffer.alloc(20);
+            ipHeader[0] = 0x45; // IPv4, 20 byte header
+            ipHeader.writeUInt16BE(20 + 8 + data.byteLength, 2);
+            ipHeader[8] = 64; // TTL
+            ipHeader[9] = 17; // UDP
+            Buffer.from(PCAP_SOURCE_ADDRESS).copy(ipHeader, 12);
+            Buffer.from(PCAP_DESTINATION_ADDRESS).copy(ipHeader, 16);
+            ipHeader.writeUInt16BE(getIpChecksum(ipHeader), 10);
+
+            const udpHeader = Buffer.alloc(8);
+            udpHeader.writeUInt16BE(PCAP_RTP_PORT, 0);
+            udpHeader.writeUInt16BE(PCAP_RTP_PORT, 2);
+            udpHeader.writeUInt16BE(8 + data.byteLength, 4);
+            // Checksum is left as zero, which means 'no checksum' for UDP over IPv4
+
+            const packetLength = ipHeader.byteLength + udpHeader.byteLength + data.byteLength;
+            const recordHeader = Buffer.alloc(16);
+            recordHeader.writeUInt32LE(Math.floor(receivedAt / 1000), 0);
+            recordHeader.writeUInt32LE(Math.floor((receivedAt % 1000) * 1000), 4);
+            recordHeader.writeUInt32LE(packetLength, 8);
+            recordHeader.writeUInt32LE(packetLength, 12);
+
+            file.append(Buffer.concat([recordHeader, ipHeader, udpHeader, data]));
+            packetCount += 1;
+        },
+        async close() {
+            await file.close();
+            return packetCount;
+        }
+    };
+}
+
+function getRecordableCodec(media: SDP.MediaDescription | undefined, payloadType: number) {
+    const rtpMapping = media?.rtp.find((rtp) => rtp.payload === payloadType);
+    if (!rtpMapping) return undefined;
+
+    const codec = rtpMapping.codec.toUpperCase();
+    if (codec === 'OPUS') return { codec: 'opus' as const, channels: Number(rtpMapping.encoding ?? 2) };
+    if (codec === 'VP8' || codec === 'VP9' || codec === 'H264') return { codec: codec as VideoCodec };
+    return undefined;
+}
+
+export interface MediaRecording {
+    filePath: string;
+
+    /**
+     * The number of frames written, or for pcap recordings, the number of packets.
+     */
+    frameCount: number;
+}
+
+/**
+ * Records all RTP packets received by the given media track into a file, until the track closes.
+ *
+ * With the 'pcap' format, all received RTP is written to a pcap file as-is. With the 'media' format,
+ * the codec is detected from the first packet's payload type (using the track's media description
+ * from the negotiated SDP), and the media is depacketized and written to an IVF file for VP8, VP9 &
+ * H264, or to an Ogg file for Opus. The file extension is added automatically to the given base path.
+ *
+ * Resolves once the track has closed and the file is complete, with details of the recording (or
+ * undefined, if nothing was recorded), or rejects if the file could not be written.
+ */
+export function recordMediaTrack(
+    track: MediaTrackStream,
+    basePath: string,
+    format: MediaRecordingOptions['format'],
+    getMediaDescription: () => SDP.MediaDescription | undefined
+): Promise<MediaRecording | undefined> {
+    let writer: MediaFileWriter | undefined;
+    let filePath: string | undefined;
+    let unrecordablePayloadType: number | undefined;
+
+    const recordPacket = (data: Buffer) => {
+        if (!isRtpPacket(data)) return; // Ignore RTCP
+
+        if (!writer) {
+            if (format === 'pcap') {
+                filePath = `${basePath}.pcap`;
+                writer = createPcapWriter(filePath);
+            } else {
+                const payloadType = parseRtpPacket(data).payloadType;
+                const codecDetails = getRecordableCodec(getMediaDescription(), payloadType);
+
+                if (!codecDetails) {
+                    if (unrecordablePayloadType !== payloadType) {
+                        console.warn(`Cannot record media with unsupported payload type ${payloadType} on track ${track.mid}`);
+                        unrecordablePayloadType = payloadType;
+                    }
+                    return;
+                }
+
+                if (codecDetails.codec === 'opus') {
+                    filePath = `${basePath}.ogg`;
+                    writer = createOggOpusWriter(filePath, codecDetails.channels, payloadType);
+                } else {
+                    filePath = `${basePath}.ivf`;
+                    writer = createIvfWriter(filePath, codecDetails.codec, payloadType);
+                }
+            }
+        }
+
+        try {
+            writer.writePacket(data, Date.now());
+        } catch (e) {
+            console.warn(`Failed to record media packet on track ${track.mid}`, e);
+        }
+    };
+
+    track.on('read-data', recordPacket);
+
+    return new Promise((resolve, reject) => {
+        track.once('close', () => {
+            track.removeListener('read-data', recordPacket);
+            if (!writer) return resolve(undefined);
+
+            writer.close().then((frameCount) => resolve({
+                filePath: filePath!,
+                frameCount
+            }), reject);
+        });
+    });
+}
@@ -6,6 +6,8 @@
 import * as stream from 'stream';
 import type * as NodeDataChannel from 'node-datachannel';
 
+import type { NetworkImpairment } from './network-impairment';
+
 /**
  * Turns a node-datachannel media track into a real Node.js stream, complete with
  * buffering, backpressure (up to a point - if the buffer fills up, messages are dropped),
@@ -30,6 +32,10 @@ export class MediaTrackStream extends stream.Duplex {
         rawTrack.onMessage((msg) => {
             this._totalBytesReceived += msg.byteLength;
 
+            // As with data channels, we fire our own unbuffered read-data event, so that packets
+            // can be observed (e.g. for recording) without consuming data from the stream itself.
+            this.emit('read-data', msg);
+
             if (!this._readActive) return; // If the buffer is full, drop messages.
 
             // If the push is rejected, we pause reading until the next call to _read().
@@ -59,6 +65,12 @@ export class MediaTrackStream extends stream.Duplex {
         }
     }
 
+    /**
+     * If set, all written packets are delayed and/or dropped according to this impairment's
+     * current network conditions.
+     */
+    networkImpairment: NetworkImpairment | undefined;
+
     private _isOpen = false;
     get isOpen() {
         return this._isOpen;
@@ -97,6 +109,11 @@ export class MediaTrackStream extends stream.Duplex {
             return;
         }
 
+        if (this.networkImpairment?.isActive) {
+            this.writeImpaired(this.networkImpairment, [chunk]);
+            return callback(null);
+        }
+
         try {
             sentOk = this.rawTrack.sendMessageBinary(chunk);
             this._totalBytesSent += chunk.byteLength;
@@ -122,6 +139,11 @@ export class MediaTrackStream extends stream.Duplex {
             return;
         }
 
+        if (this.networkImpairment?.isActive) {
+            this.writeImpaired(this.networkImpairment, chunks.map(c => c.chunk));
+            return callback(null);
+        }
+
         try {
             const combinedChunks = Buffer.concat(chunks.map(c => c.chunk));
             sentOk = this.rawTrack.sendMessageBinary(combinedChunks);
@@ -137,6 +159,23 @@ export class MediaTrackStream extends stream.Duplex {
         }
     }
 
+    // Impaired packets are sent individually & asynchronously, and are dropped if sending fails, just
+    // like any other lost packets:
+    private writeImpaired(impairment: NetworkImpairment, packets: Buffer[]) {
+        packets.forEach((packet) => {
+            impairment.schedule(packet.byteLength, () => {
+                if (this.destroyed || this.rawTrack.isClosed()) return;
+
+                try {
+                    this.rawTrack.sendMessageBinary(packet);
+                    this._totalBytesSent += packet.byteLength;
+                } catch (err) {
+                    // Closing races etc are unavoidable here, and for media a lost packet is OK
+                }
+            }, { reliable: false });
+        });
+    }
+
     /** @internal */
     _final(callback: (error: Error | null) => void) {
         if (!this.allowHalfOpen) this.destroy();
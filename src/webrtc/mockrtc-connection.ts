@@ -3,14 +3,50 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import * as stream from 'stream';
 import type * as NodeDataChannel from 'node-datachannel';
 
+import type { RTCConnectionOptions } from '../mockrtc';
+import type { InjectMessageOptions, NetworkConditions } from '../mockrtc-peer';
+import type {
+    ChannelRoute,
+    MessageDirection,
+    ProxiedMessageInfo
+} from '../handling/handler-step-definitions';
+
 import { MockRTCControlMessage, MOCKRTC_CONTROL_CHANNEL } from './control-channel';
 
 import { DataChannelStream } from './datachannel-stream';
 import { MediaTrackStream } from './mediatrack-stream';
 import { RTCConnection } from './rtc-connection';
 
+const CHANNEL_EVENTS: Array<string | symbol> = ['', 'local-', 'remote-'].flatMap((prefix) => [
+    `${prefix}channel-created`,
+    `${prefix}channel-open`
+]);
+
+const TRACK_EVENTS: Array<string | symbol> = ['', 'local-', 'remote-'].flatMap((prefix) => [
+    `${prefix}track-created`,
+    `${prefix}track-open`
+]);
+
+// The EventEmitter methods which manage listeners, which are handled separately for channel views:
+const VIEW_LISTENER_METHODS: Array<keyof EventEmitter> = [
+    'on',
+    'addListener',
+    'prependListener',
+    'once',
+    'prependOnceListener',
+    'off',
+    'removeListener',
+    'removeAllListeners',
+    'listeners',
+    'rawListeners',
+    'listenerCount'
+];
+
 export class MockRTCConnection extends RTCConnection {
 
     // If the client supports a MockRTC control channge to send extra metadata during mocking,
@@ -18,10 +54,56 @@ export class MockRTCConnection extends RTCConnection {
     private controlChannel: DataChannelStream | undefined;
     private externalConnection: RTCConnection | undefined;
 
+    // The most recent message consumed by a wait-for-message step, if any. Used by conditional
+    // steps to choose which steps to run next.
+    lastMessage: { channelLabel: string, content: string | Buffer } | undefined;
+
+    // If set, every data channel message proxied to or from the external connection is passed through
+    // this transform first. It resolves to the message to forward, or null to drop the message. If it
+    // rejects, the message is dropped.
+    messageTransform: ((
+        message: string | Buffer,
+        info: ProxiedMessageInfo
+    ) => Promise<string | Buffer | null>) | undefined;
+
+    // Filters for proxied messages that should be held until they're explicitly released. Checked after
+    // any transform has been applied, so held messages are exactly what would have been forwarded.
+    readonly messageBreakpoints: Array<(message: string | Buffer, info: ProxiedMessageInfo) => boolean> = [];
+
+    // Messages currently held by a breakpoint, with callbacks to release them (or null to drop them). A map,
+    // not an object, as ids come from clients, and must never match prototype properties.
+    private readonly heldMessages = new Map<string, (message: string | Buffer | null | undefined) => void>();
+
+    // Routes for data channels with specific labels, controlling whether they're proxied when proxying
+    // is active. Channels without a route are proxied by default.
+    // A map, not an object, as labels come from the remote peer, and must never match prototype properties.
+    private readonly channelRoutes = new Map<string, ChannelRoute>();
+
+    // Renegotiation offers sent over the control channel, for this connection ('internal') or for the
+    // external connection attached via the control channel ('external'), each waiting for an answer:
+    private readonly pendingControlAnswers: {
+        [target in 'internal' | 'external']?: {
+            resolve: (answer: RTCSessionDescriptionInit) => void,
+            reject: (error: Error) => void
+        }
+    } = {};
+
+    // Media tracks which are already being proxied to their external equivalent
+    private readonly proxiedTracks = new WeakSet<MediaTrackStream>();
+
+    // Media syncs run one at a time, so each sees the tracks created by the previous renegotiation
+    private mediaSyncQueue: Promise<void> = Promise.resolve();
+
     constructor(
-        private getExternalConnection: (id: string) => RTCConnection
+        private getExternalConnection: (id: string) => RTCConnection,
+        options: RTCConnectionOptions = {}
     ) {
-        super();
+        super(options);
+
+        // Any messages still held when the connection closes are dropped:
+        this.once('connection-closed', () => {
+            [...this.heldMessages.values()].forEach((release) => release(null));
+        });
     }
 
     protected trackNewChannel(channel: NodeDataChannel.DataChannel, options: { isLocal: boolean }) {
@@ -49,6 +131,12 @@ export class MockRTCConnection extends RTCConnection {
                         }
 
                         const externalConnection = this.getExternalConnection(controlMessage.id);
+
+                        // The external connection was signalled by the hooked page, so it can be renegotiated
+                        // the same way, via the page:
+                        externalConnection.negotiator ??= (offer) =>
+                            this.negotiateViaControlChannel(offer, 'external');
+
                         // We don't attach until the external connection actually connects. Typically that's
                         // already happened at this point, but its not guaranteed, so best to check:
                         externalConnection.waitUntilConnected().then(() => {
@@ -58,6 +146,16 @@ export class MockRTCConnection extends RTCConnection {
 
                         // We don't necessarily proxy traffic through to the external connection at this
                         // point, that depends on the specific handling that's used here.
+                    } else if (controlMessage.type === 'renegotiate-answer') {
+                        const pendingAnswer = this.pendingControlAnswers.internal;
+                        if (!pendingAnswer) throw new Error('Unexpected renegotiation answer');
+                        pendingAnswer.resolve(controlMessage.answer);
+                    } else if (controlMessage.type === 'error' && this.pendingControlAnswers.internal) {
+                        this.pendingControlAnswers.internal.reject(new Error(controlMessage.error));
+                    } else if (controlMessage.type === 'renegotiate-external-answer') {
+                        const pendingAnswer = this.pendingControlAnswers.external;
+                        if (!pendingAnswer) throw new Error('Unexpected external renegotiation answer');
+                        pendingAnswer.resolve(controlMessage.answer);
                     } else {
                         throw new Error(`Unrecognized control channel message: ${controlMessage.type}`);
                     }
@@ -72,8 +170,15 @@ export class MockRTCConnection extends RTCConnection {
 
             this.controlChannel.on('close', () => {
                 this.controlChannel = undefined;
+                this.negotiator = undefined;
+                Object.values(this.pendingControlAnswers).forEach((pendingAnswer) =>
+                    pendingAnswer.reject(new Error('Control channel closed during renegotiation'))
+                );
             });
 
+            // The control channel lets us signal the peer directly, so we can renegotiate when required:
+            this.negotiator = (offer) => this.negotiateViaControlChannel(offer, 'internal');
+
             this.controlChannel.on('error', (error) => {
                 console.error('Control channel error:', error);
             });
@@ -84,6 +189,158 @@ export class MockRTCConnection extends RTCConnection {
         }
     }
 
+    private negotiateViaControlChannel(
+        offer: RTCSessionDescriptionInit,
+        target: 'internal' | 'external'
+    ): Promise<RTCSessionDescriptionInit> {
+        if (!this.controlChannel) {
+            return Promise.reject(new Error("Can't renegotiate, as the control channel is closed"));
+        }
+
+        return new Promise((resolve, reject) => {
+            this.pendingControlAnswers[target] = {
+                resolve: (answer) => {
+                    delete this.pendingControlAnswers[target];
+                    resolve(answer);
+                },
+                reject: (error) => {
+                    delete this.pendingControlAnswers[target];
+                    reject(error);
+                }
+            };
+
+            this.controlChannel!.write(JSON.stringify({
+                type: target === 'internal' ? 'renegotiate-offer' : 'renegotiate-external-offer',
+                offer: { type: offer.type, sdp: offer.sdp }
+            } as MockRTCControlMessage));
+        });
+    }
+
+    setChannelRoute(channelLabel: string, route: ChannelRoute) {
+        this.channelRoutes.set(channelLabel, route);
+    }
+
+    private shouldProxyChannel(channelLabel: string) {
+        return (this.channelRoutes.get(channelLabel) ?? 'proxy') === 'proxy';
+    }
+
+    /**
+     * Returns a view of this connection which only exposes data channels with the given label, and no
+     * media tracks, so that handler steps run against the view only interact with that channel. All
+     * other connection state (e.g. the connection itself, network conditions) is shared.
+     */
+    getChannelView(channelLabel: string): MockRTCConnection {
+        return this.buildView({
+            isInView: (channel) => channel.label === channelLabel,
+            includeTracks: false
+        });
+    }
+
+    /**
+     * Returns a view of this connection which excludes data channels that have been routed elsewhere
+     * (to be mocked by their own steps, or dropped), so that the connection's main handler steps never
+     * see them. Routes are checked on each use, so this includes routes set after the view is created.
+     */
+    getMainView(): MockRTCConnection {
+        return this.buildView({
+            isInView: (channel) => this.shouldProxyChannel(channel.label),
+            includeTracks: true
+        });
+    }
+
+    private buildView({ isInView, includeTracks }: {
+        isInView: (channel: DataChannelStream) => boolean,
+        includeTracks: boolean
+    }): MockRTCConnection {
+        // Listeners on the view are attached to its own emitter. While the view has listeners for an
+        // event, that event is forwarded from this connection, with channel events filtered to only
+        // those for the view's channels, and track events dropped if tracks aren't included:
+        const viewEvents = new EventEmitter();
+        const forwarders = new Map<string | symbol, (...args: any[]) => void>();
+
+        viewEvents.on('newListener', (event: string | symbol) => {
+            if (event === 'newListener' || event === 'removeListener') return;
+            if (forwarders.has(event)) return;
+            if (!includeTracks && TRACK_EVENTS.includes(event)) return;
+
+            const forwarder = (...args: any[]) => {
+                if (CHANNEL_EVENTS.includes(event) && !isInView(args[0])) return;
+                viewEvents.emit(event, ...args);
+            };
+            forwarders.set(event, forwarder);
+            this.on(event, forwarder);
+        });
+
+        viewEvents.on('removeListener', (event: string | symbol) => {
+            const forwarder = forwarders.get(event);
+            if (!forwarder || viewEvents.listenerCount(event) > 0) return;
+
+            forwarders.delete(event);
+            this.off(event, forwarder);
+        });
+
+        const view: MockRTCConnection = new Proxy(this, {
+            get: (connection, property) => {
+                switch (property) {
+                    case 'channels': return connection.channels.filter(isInView);
+                    case 'localChannels': return connection.localChannels.filter(isInView);
+                    case 'remoteChannels': return connection.remoteChannels.filter(isInView);
+                    case 'mediaTracks':
+                    case 'localMediaTracks':
+                    case 'remoteMediaTracks':
+                        if (!includeTracks) return [];
+                }
+
+                if (VIEW_LISTENER_METHODS.includes(property as keyof EventEmitter)) {
+                    const method = viewEvents[property as keyof EventEmitter] as (...args: unknown[]) => unknown;
+                    return (...args: unknown[]) => {
+                        const result = method.apply(viewEvents, args);
+                        return result === viewEvents ? view : result;
+                    };
+                }
+
+                // Everything else acts on the connection itself:
+                const value = Reflect.get(connection, property);
+                return typeof value === 'function'
+                    ? value.bind(connection)
+                    : value;
+            }
+        });
+
+        return view;
+    }
+
+    setNetworkConditions(conditions: NetworkConditions) {
+        super.setNetworkConditions(conditions);
+
+        // When proxying, the conditions apply in both directions, so we apply them to data sent by
+        // the external connection to the remote peer too:
+        this.externalConnection?.setNetworkConditions(conditions);
+    }
+
+    async injectMessage({ direction, channel: channelLabel, message }: InjectMessageOptions) {
+        let targetConnection: RTCConnection;
+        if (direction === 'to-local') {
+            targetConnection = this;
+        } else if (this.externalConnection) {
+            targetConnection = this.externalConnection;
+        } else {
+            throw new Error("Can't inject messages to the remote peer, as this session is not proxied");
+        }
+
+        const channel = targetConnection.channels.find(({ label }) => label === channelLabel);
+        if (!channel) {
+            throw new Error(`Can't inject message ${direction}, as there's no channel labelled '${channelLabel}'`);
+        }
+
+        await new Promise<void>((resolve, reject) =>
+            channel.write(message, (error) => {
+                if (error) reject(error);
+                else resolve();
+            })
+        );
+    }
+
     async proxyTrafficToExternalConnection() {
         if (!this.externalConnection) {
             await new Promise((resolve) => this.once('external-connection-attached', resolve));
@@ -123,31 +380,41 @@ export class MockRTCConnection extends RTCConnection {
          */
 
 
+        // Mirror our network conditions onto traffic sent to the remote peer:
+        externalConnection.setNetworkConditions(this.networkConditions);
+
         // Mirror connection closure:
         this.on('connection-closed', () => externalConnection.close());
         externalConnection.on('connection-closed', () => this.close());
 
         /// --- Data channels: --- ///
 
-        // Forward *all* existing internal channels to the external connection:
+        // Forward all existing internal channels to the external connection (except channels that
+        // have been routed elsewhere, e.g. to be mocked or dropped):
         this.channels.forEach((channel: DataChannelStream) => { // All channels, in case a previous step created one
+            if (!this.shouldProxyChannel(channel.label)) return;
             const mirrorChannelStream = externalConnection.createDataChannel(channel.label);
-            channel.pipe(mirrorChannelStream).pipe(channel);
+            this.proxyChannel(channel, mirrorChannelStream);
         });
 
         // Forward any existing external channels back to this peer connection. Note that we're mirroring
         // *remote* channels only, so we skip the channels that we've just created above.
         externalConnection.remoteChannels.forEach((channel: DataChannelStream) => {
+            if (!this.shouldProxyChannel(channel.label)) return;
             const mirrorChannelStream = this.createDataChannel(channel.label);
-            channel.pipe(mirrorChannelStream).pipe(channel);
+            this.proxyChannel(mirrorChannelStream, channel);
         });
 
         // If any new channels open in future, mirror them to the other peer:
-        [[this, externalConnection], [externalConnection, this]].forEach(([connA, connB]) => {
-            connA.on('remote-channel-created', (incomingChannel: DataChannelStream) => {
-                const mirrorChannelStream = connB.createDataChannel(incomingChannel.label);
-                incomingChannel.pipe(mirrorChannelStream).pipe(incomingChannel);
-            });
+        this.on('remote-channel-created', (incomingChannel: DataChannelStream) => {
+            if (!this.shouldProxyChannel(incomingChannel.label)) return;
+            const mirrorChannelStream = externalConnection.createDataChannel(incomingChannel.label);
+            this.proxyChannel(incomingChannel, mirrorChannelStream);
+        });
+        externalConnection.on('remote-channel-created', (incomingChannel: DataChannelStream) => {
+            if (!this.shouldProxyChannel(incomingChannel.label)) return;
+            const mirrorChannelStream = this.createDataChannel(incomingChannel.label);
+            this.proxyChannel(mirrorChannelStream, incomingChannel);
         });
 
         /// --- Media tracks: --- ///
@@ -156,25 +423,125 @@ export class MockRTCConnection extends RTCConnection {
         // we can always assume that mock data channels need mirroring, media tracks are negotiated
         // in the SDP, not in-band, and so any media track could already exist on the other side.
 
-        // For each track on the internal connection, proxy it to the corresponding external track:
-        this.mediaTracks.forEach((track: MediaTrackStream) => {
-            const externalStream = externalConnection.mediaTracks.find(({ mid }) => mid === track.mid);
-            if (externalStream) {
-                if (externalStream.type === track.type) {
-                    track.pipe(externalStream).pipe(track);
-                } else {
+        // Proxy each internal track to its corresponding external track, renegotiating either side
+        // as required if it's missing tracks that the other side has:
+        await this.syncMediaTracks(externalConnection);
+
+        // If either peer adds new tracks later (e.g. adding a screenshare mid-call) renegotiate the
+        // other side to match:
+        const resyncMediaTracks = () => {
+            this.syncMediaTracks(externalConnection).catch((error) => {
+                console.warn('Failed to sync proxied media tracks', error);
+            });
+        };
+        this.on('remote-track-created', resyncMediaTracks);
+        externalConnection.on('remote-track-created', resyncMediaTracks);
+    }
+
+    private syncMediaTracks(externalConnection: RTCConnection): Promise<void> {
+        const result = this.mediaSyncQueue.then(async () => {
+            const hasTrack = (conn: RTCConnection, mid: string) =>
+                conn.mediaTracks.some((track) => track.mid === mid);
+
+            // A mismatch in media streams means the external & mock peer negotiation isn't in sync, so
+            // we renegotiate the side that's missing tracks, mirroring the media of the other side:
+            if (this.mediaTracks.some(({ mid }) => !hasTrack(externalConnection, mid))) {
+                await externalConnection.renegotiate({
+                    mirrorSDP: this.getRemoteDescription()!.sdp!
+                });
+            }
+
+            if (externalConnection.mediaTracks.some(({ mid }) => !hasTrack(this, mid))) {
+                await this.renegotiate({
+                    mirrorSDP: externalConnection.getRemoteDescription()!.sdp!
+                });
+            }
+
+            this.mediaTracks.forEach((track: MediaTrackStream) => {
+                if (this.proxiedTracks.has(track)) return;
+
+                const externalStream = externalConnection.mediaTracks.find(({ mid }) => mid === track.mid);
+                if (!externalStream) {
+                    throw new Error(`Mock has ${track.type} ${track.mid} but external does not after renegotiation`);
+                } else if (externalStream.type !== track.type) {
                     throw new Error(`Mock & external streams with mid ${track.mid} have mismatched types (${
                         track.type
                     }/${
                         externalStream.type
                     })`);
                 }
-            } else {
-                // A mismatch in media streams means the external & mock peer negotiation isn't in sync!
-                // For now we just reject this case - later we should try to prompt a renegotiation.
-                throw new Error(`Mock has ${track.type} ${track.mid} but external does not`);
+
+                track.pipe(externalStream).pipe(track);
+                this.proxiedTracks.add(track);
+            });
+        });
+
+        this.mediaSyncQueue = result.catch(() => {}); // Failures don't block later syncs
+        return result;
+    }
+
+    private proxyChannel(internalChannel: DataChannelStream, externalChannel: DataChannelStream) {
+        internalChannel
+            .pipe(this.buildMessageTransformStream('to-remote', internalChannel.label))
+            .pipe(externalChannel);
+        externalChannel
+            .pipe(this.buildMessageTransformStream('to-local', externalChannel.label))
+            .pipe(internalChannel);
+    }
+
+    private buildMessageTransformStream(direction: MessageDirection, channelLabel: string) {
+        return new stream.Transform({
+            objectMode: true,
+            transform: (message: string | Buffer, _encoding, callback) => {
+                // Checked per message, so these can be changed while proxying is active:
+                if (!this.messageTransform && !this.messageBreakpoints.length) return callback(null, message);
+
+                this.processProxiedMessage(message, { direction, channelLabel })
+                    .then((result) => {
+                        if (result === null) callback(); // Drop the message
+                        else callback(null, result);
+                    })
+                    .catch((error) => {
+                        // Forwarding the untransformed message could leak exactly what the transform
+                        // was intended to hide or change, so failed messages are dropped instead:
+                        this.emit('message-transform-failed', { message, direction, channelLabel, error });
+                        callback();
+                    });
             }
         });
     }
 
-}
\ No newline at end of file
+    private async processProxiedMessage(message: string | Buffer, info: ProxiedMessageInfo) {
+        const result = this.messageTransform
+            ? await this.messageTransform(message, info)
+            : message;
+
+        if (result !== null && this.messageBreakpoints.some((matches) => matches(result, info))) {
+            return this.holdMessage(result, info);
+        } else {
+            return result;
+        }
+    }
+
+    // Holds a message until it's released, resolving with the message to forward, or null to drop it. While
+    // a message is held, later messages in the same direction on the same channel wait behind it.
+    private holdMessage(message: string | Buffer, info: ProxiedMessageInfo) {
+        const id = randomUUID();
+
+        return new Promise<string | Buffer | null>((resolve) => {
+            this.heldMessages.set(id, (result) => {
+                this.heldMessages.delete(id);
+                resolve(result === undefined ? message : result);
+            });
+
+            this.emit('message-held', { id, message, ...info });
+        });
+    }
+
+    releaseHeldMessage(id: string, message?: string | Buffer | null) {
+        const release = this.heldMessages.get(id);
+        if (!release) throw new Error(`No message with id ${id} is currently held`);
+        release(message);
+    }
+
+}
@@ -0,0 +1,129 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { NetworkConditions } from '../mockrtc-peer';
+
+// When bandwidth is capped, packets queue up on the simulated link. Beyond this much queued data,
+// unreliable packets (media) are dropped, just like an overflowing router buffer.
+const MAX_QUEUE_DELAY_MS = 1000;
+
+// The minimum extra delay for a reliable message to be 'retransmitted' after it's lost.
+const MIN_RETRANSMISSION_DELAY_MS = 50;
+
+// The minimum extra delay applied to a packet that's reordered, so that later packets overtake it.
+const MIN_REORDER_DELAY_MS = 20;
+
+export function validateNetworkConditions(conditions: NetworkConditions) {
+    const { latencyMs, jitterMs, lossRate, reorderRate, kbps } = conditions;
+
+    ([['latencyMs', latencyMs], ['jitterMs', jitterMs]] as const).forEach(([name, value]) => {
+        if (value !== undefined && !(value >= 0)) {
+            throw new Error(`Network condition ${name} must be a positive number, but was ${value}`);
+        }
+    });
+
+    ([['lossRate', lossRate], ['reorderRate', reorderRate]] as const).forEach(([name, value]) => {
+        if (value !== undefined && !(value >= 0 && value <= 1)) {
+            throw new Error(`Network condition ${name} must be between 0 and 1, but was ${value}`);
+        }
+    });
+
+    if (kbps !== undefined && !(kbps > 0)) {
+        throw new Error(`Network condition kbps must be greater than 0, but was ${kbps}`);
+    }
+}
+
+/**
+ * Simulates a poor network link in one direction, by delaying or dropping outgoing packets
+ * according to a configurable set of network conditions.
+ *
+ * Each connection has its own impairment, which is shared by all its channels & tracks, so
+ * they all compete for the same simulated bandwidth.
+ */
+export class NetworkImpairment {
+
+    private _conditions: NetworkConditions = {};
+    get conditions(): NetworkConditions {
+        return this._conditions;
+    }
+
+    setConditions(conditions: NetworkConditions) {
+        validateNetworkConditions(conditions);
+        this._conditions = { ...conditions };
+    }
+
+    // The time at which the simulated link will have finished sending all queued data
+    private linkFreeAt = 0;
+
+    // The latest time at which an in-order packet is currently scheduled to be delivered
+    private lastDeliveryAt = 0;
+
+    /**
+     * Whether packets currently need scheduling: true if any conditions are set, or if previously
+     * delayed packets are still in flight (so that later packets don't overtake them).
+     */
+    get isActive() {
+        const now = performance.now();
+        return Object.values(this._conditions).some(value => !!value) ||
+            this.linkFreeAt > now ||
+            this.lastDeliveryAt > now;
+    }
+
+    /**
+     * Schedules the delivery of a packet of the given size, calling the send callback once it should
+     * be delivered, or never if it's lost.
+     *
+     * Reliable packets (data channel messages, for our purposes, since we can't see their reliability
+     * settings) are never dropped or reordered. Instead, lost messages are delayed as if they were
+     * retransmitted, which delays all later messages too.
+     */
+    schedule(size: number, send: () => void, options: { reliable: boolean }) {
+        const {
+            latencyMs = 0,
+            jitterMs = 0,
+            lossRate = 0,
+            reorderRate = 0,
+            kbps
+        } = this._conditions;
+
+        const now = performance.now();
+
+        let sendTime = now;
+        if (kbps) {
+            const queueStart = Math.max(now, this.linkFreeAt);
+            if (!options.reliable && queueStart - now > MAX_QUEUE_DELAY_MS) return; // Buffer overflow
+
+            const transmissionTime = (size * 8) / kbps; // Kbps == bits per millisecond
+            this.linkFreeAt = queueStart + transmissionTime;
+            sendTime = this.linkFreeAt;
+        }
+
+        let delay = Math.max(latencyMs + (Math.random() * 2 - 1) * jitterMs, 0);
+
+        if (Math.random() < lossRate) {
+            if (!options.reliable) return;
+            delay += Math.max(2 * latencyMs, MIN_RETRANSMISSION_DELAY_MS);
+        }
+
+        let deliveryTime = sendTime + delay;
+
+        if (!options.reliable && Math.random() < reorderRate) {
+            // Reordered packets are held back a little, and don't delay any later packets
+            deliveryTime += Math.max(jitterMs, MIN_REORDER_DELAY_MS);
+        } else {
+            // Otherwise, packets are delivered in order, even if that means waiting for jittered
+            // or retransmitted packets that were sent before them:
+            deliveryTime = Math.max(deliveryTime, this.lastDeliveryAt);
+            this.lastDeliveryAt = deliveryTime;
+        }
+
+        if (deliveryTime <= now) {
+            send();
+        } else {
+            setTimeout(send, deliveryTime - now);
+        }
+    }
+
+}
@@ -9,21 +9,29 @@ import * as SDP from 'sdp-transform';
 
 import * as NodeDataChannel from 'node-datachannel';
 
-import type { MockRTCSessionDescription } from '../mockrtc';
+import type { MockRTCSessionDescription, RTCConnectionOptions } from '../mockrtc';
 import {
     ConnectionMetadata,
     MockRTCSession,
     AnswerOptions,
-    OfferOptions
+    OfferOptions,
+    NetworkConditions,
+    InjectMessageOptions
 } from '../mockrtc-peer';
 
 import { DataChannelStream } from './datachannel-stream';
 import { MediaTrackStream } from './mediatrack-stream';
+import { NetworkImpairment } from './network-impairment';
 
 export type ParsedSDP = {
     parsedSdp: SDP.SessionDescription;
 };
 
+/**
+ * Signals a renegotiation offer to a connection's peer, resolving with the peer's answer.
+ */
+export type Negotiator = (offer: MockRTCSessionDescription) => Promise<RTCSessionDescriptionInit>;
+
 /**
  * An RTC connection is a single connection. This base class defines the raw connection management and
  * tracking logic for a generic connection. The MockRTCConnection subclass extends this and adds
@@ -35,8 +43,11 @@ export class RTCConnection extends EventEmitter {
 
     // Set to null when the connection is closed, as otherwise calling any method (including checking
     // the connection state) will segfault the process.
-    private rawConn: NodeDataChannel.PeerConnection | null
-        = new NodeDataChannel.PeerConnection("MockRTCConnection", { iceServers: [], forceMediaTransport: true });
+    private rawConn: NodeDataChannel.PeerConnection | null;
+
+    get isClosed() {
+        return !this.rawConn;
+    }
 
     private remoteDescription: RTCSessionDescriptionInit & ParsedSDP | undefined;
     private localDescription: MockRTCSessionDescription & ParsedSDP | undefined;
@@ -46,8 +57,75 @@ export class RTCConnection extends EventEmitter {
         return this._connectionMetadata;
     }
 
+    // Simulated network conditions, applied to all data sent on this connection's channels & tracks
+    private readonly networkImpairment = new NetworkImpairment();
+
+    get networkConditions(): NetworkConditions {
+        return this.networkImpairment.conditions;
+    }
+
+    setNetworkConditions(conditions: NetworkConditions) {
+        this.networkImpairment.setConditions(conditions);
+    }
+
+    async injectMessage(_options: InjectMessageOptions): Promise<void> {
+        throw new Error("Messages can only be injected into mock sessions");
+    }
+
+    /**
+     * Releases a message held by a breakpoint. The message is forwarded unchanged if no message
+     * is given, forwarded with new content if one is, or dropped entirely if null is given.
+     */
+    releaseHeldMessage(_id: string, _message?: string | Buffer | null): void {
+        throw new Error("Messages can only be held in mock sessions");
+    }
+
+    /**
+     * A callback to signal a renegotiation offer to the connected peer, resolving with its answer. This
+     * is only set for connections where MockRTC has some way to signal that peer directly.
+     */
+    negotiator: Negotiator | undefined;
+
+    // Renegotiations run one at a time, since each must complete before the next offer can be created
+    private negotiationQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Renegotiates this connection with its peer, creating a new offer and completing it with the
+     * answer from the negotiator (by default, the connection's own negotiator).
+     *
+     * If an SDP to mirror is provided, the offer mirrors its media (adding any media tracks that this
+     * connection doesn't have yet). Otherwise, the offer reflects the connection's current tracks.
+     */
+    renegotiate(options: { mirrorSDP?: string, negotiator?: Negotiator } = {}): Promise<void> {
+        const result = this.negotiationQueue.then(async () => {
+            const negotiator = options.negotiator ?? this.negotiator;
+            if (!negotiator) {
+                throw new Error("Can't renegotiate connection, as there's no way to signal its peer");
+            }
+
+            const offer = options.mirrorSDP
+                ? await this.sessionApi.createOffer({ mirrorSDP: options.mirrorSDP })
+                : await this.buildRenegotiationOffer();
+            const answer = await negotiator(offer);
+            await this.sessionApi.completeOffer(answer as MockRTCSessionDescription);
+        });
+
+        this.negotiationQueue = result.catch(() => {}); // Failures don't block later renegotiations
+        return result;
+    }
+
+    private async buildRenegotiationOffer() {
+        if (!this.rawConn) throw new Error("Can't renegotiate after connection is closed");
+        this.rawConn.setLocalDescription(NodeDataChannel.DescriptionType.Offer);
+        return this.buildLocalDescription();
+    }
+
     private readonly trackedChannels: Array<{ stream: DataChannelStream, isLocal: boolean }> = [];
 
+    // The first data channel message received on this connection, if any. This is recorded
+    // without consuming the message, so that it can be used to match connections.
+    firstMessage: { channelLabel: string, content: string | Buffer } | undefined;
+
     get channels(): ReadonlyArray<DataChannelStream> {
         return this.trackedChannels
             .map(channel => channel.stream);
@@ -84,9 +162,16 @@ export class RTCConnection extends EventEmitter {
             .map(track => track.stream);
     }
 
-    constructor() {
+    constructor(
+        readonly options: RTCConnectionOptions = {}
+    ) {
         super();
 
+        this.rawConn = new NodeDataChannel.PeerConnection("MockRTCConnection", {
+            ...buildRtcConfig(options),
+            forceMediaTransport: true
+        });
+
         this.rawConn!.onDataChannel((channel) => {
             if (!this.rawConn) return; // https://github.com/murat-dogan/node-datachannel/issues/103
 
@@ -106,6 +191,22 @@ export class RTCConnection extends EventEmitter {
             this.emit('connection-state-changed', state);
         });
 
+        this.rawConn!.onGatheringStateChange((state) => {
+            if (!this.rawConn) return;
+            this.emit('gathering-state-changed', state);
+
+            // A null candidate signals the end of candidates, as in the browser APIs:
+            if (state === 'complete') this.addLocalCandidate(null);
+        });
+
+        this.rawConn!.onLocalCandidate((candidate, mid) => {
+            if (!this.rawConn) return;
+            this.addLocalCandidate({
+                candidate: candidate.replace(/^a=/, ''),
+                sdpMid: mid
+            });
+        });
+
         this.on('connection-state-changed', (state) => {
             if (state === 'connected') {
                 this.emit('connection-connected');
@@ -117,14 +218,88 @@ export class RTCConnection extends EventEmitter {
         });
     }
 
+    // All local ICE candidates gathered so far, so that they can be replayed to late subscribers
+    private readonly localCandidates: Array<RTCIceCandidateInit | null> = [];
+
+    private addLocalCandidate(candidate: RTCIceCandidateInit | null) {
+        this.localCandidates.push(candidate);
+        this.emit('local-ice-candidate', candidate);
+    }
+
+    /**
+     * Calls the given callback with every local ICE candidate for this connection: first with all
+     * candidates gathered so far, and then with each new candidate as it's gathered. Each round of
+     * gathering ends with a null candidate. Returns a function to unsubscribe.
+     */
+    onLocalCandidate(callback: (candidate: RTCIceCandidateInit | null) => void): () => void {
+        this.localCandidates.forEach(callback);
+        this.on('local-ice-candidate', callback);
+        return () => this.off('local-ice-candidate', callback);
+    }
+
+    addRemoteCandidate(candidate: RTCIceCandidateInit | null) {
+        if (!this.rawConn) throw new Error("Can't add ICE candidate after connection is closed");
+
+        // Null or empty candidates just signal the end of the remote candidates, so we can ignore them:
+        if (!candidate?.candidate) return;
+
+        const mid = candidate.sdpMid ?? (
+            candidate.sdpMLineIndex !== undefined && candidate.sdpMLineIndex !== null
+                ? this.remoteDescription?.parsedSdp.media[candidate.sdpMLineIndex]?.mid?.toString()
+                : undefined
+        );
+        if (mid === undefined) {
+            throw new Error("Can't add ICE candidate without an sdpMid or sdpMLineIndex matching the remote description");
+        }
+
+        this.rawConn.addRemoteCandidate(candidate.candidate, mid);
+    }
+
     createDataChannel(label: string) {
         if (!this.rawConn) throw new Error("Can't create data channel after connection is closed");
         const channel = this.rawConn.createDataChannel(label);
         return this.trackNewChannel(channel, { isLocal: true });
     }
 
+    /**
+     * Adds a new local media track to the connection, sending & receiving VP8 video or Opus audio. The
+     * track is only usable once the connection has been renegotiated to include it.
+     */
+    addMediaTrack(kind: 'audio' | 'video') {
+        if (!this.rawConn) throw new Error("Can't add media track after connection is closed");
+
+        // Pick the lowest numeric mid that's not in use by any existing media:
+        const usedMids = [
+            ...(this.localDescription?.parsedSdp.media ?? []),
+            ...(this.remoteDescription?.parsedSdp.media ?? [])
+        ].map(media => media.mid?.toString())
+        .concat(this.mediaTracks.map(track => track.mid));
+        let mid = 0;
+        while (usedMids.includes(mid.toString())) mid++;
+
+        const media = kind === 'video'
+            ? new NodeDataChannel.Video(mid.toString(), NodeDataChannel.Direction.SendRecv)
+            : new NodeDataChannel.Audio(mid.toString(), NodeDataChannel.Direction.SendRecv);
+
+        if (media instanceof NodeDataChannel.Video) media.addVP8Codec(96);
+        else media.addOpusCodec(111);
+
+        // Add an SSRC with a msid, so that the remote peer sees the track within a stream, just
+        // like a track added to an RTCPeerConnection:
+        media.addSSRC(
+            Math.floor(Math.random() * 0xFFFFFFFF),
+            'mockrtc',
+            randomUUID(),
+            randomUUID()
+        );
+
+        const track = this.rawConn.addTrack(media);
+        return this.trackNewMediaTrack(track, { isLocal: true });
+    }
+
     protected trackNewChannel(channel: NodeDataChannel.DataChannel, options: { isLocal: boolean }) {
         const channelStream = new DataChannelStream(channel);
+        channelStream.networkImpairment = this.networkImpairment;
         this.trackedChannels.push({ stream: channelStream, isLocal: options.isLocal });
 
         channelStream.on('close', () => {
@@ -137,6 +312,13 @@ export class RTCConnection extends EventEmitter {
         channelStream.on('error', (error) => {
             console.error('Channel error:', error);
         });
+
+        channelStream.once('read-data', (content: string | Buffer) => {
+            if (this.firstMessage) return;
+            this.firstMessage = { channelLabel: channelStream.label, content };
+            this.emit('first-message', this.firstMessage);
+        });
+
         this.emit('channel-created', channelStream);
         this.emit(`${options.isLocal ? 'local' : 'remote'}-channel-created`, channelStream);
 
@@ -150,6 +332,7 @@ export class RTCConnection extends EventEmitter {
 
     protected trackNewMediaTrack(track: NodeDataChannel.Track, options: { isLocal: boolean }) {
         const trackStream = new MediaTrackStream(track);
+        trackStream.networkImpairment = this.networkImpairment;
         this.trackedMediaTracks.push({ stream: trackStream, isLocal: options.isLocal });
 
         trackStream.on('close', () => {
@@ -186,12 +369,34 @@ export class RTCConnection extends EventEmitter {
         this.rawConn.setRemoteDescription(offerSdp, offerType[0].toUpperCase() + offerType.slice(1) as any);
     }
 
+    /**
+     * Waits until ICE gathering is complete, or if trickling ICE candidates, just until gathering has
+     * started, so that the local description is available (with any candidates gathered so far).
+     */
+    private waitForGathering(options: { trickleIce?: boolean }) {
+        const isReady = (state: string) => options.trickleIce
+            ? state !== 'new'
+            : state === 'complete';
+
+        return new Promise<void>((resolve) => {
+            // Handle race conditions where gathering has already completed
+            if (isReady(this.rawConn!.gatheringState())) return resolve();
+
+            const onStateChange = (state: string) => {
+                if (!isReady(state)) return;
+                this.removeListener('gathering-state-changed', onStateChange);
+                resolve();
+            };
+            this.on('gathering-state-changed', onStateChange);
+        });
+    }
+
     /**
      * Gets the local description for this connection, waiting until gathering is complete to provide a
-     * full result. Because this waits for gathering, it will not resolve if no DataChannel, other
-     * tracks or remote description have been provided beforehand.
+     * full result (unless trickling ICE candidates). Because this waits for gathering, it will not resolve
+     * if no DataChannel, other tracks or remote description have been provided beforehand.
      */
-    async buildLocalDescription(): Promise<MockRTCSessionDescription> {
+    async buildLocalDescription(options: { trickleIce?: boolean } = {}): Promise<MockRTCSessionDescription> {
         if (!this.rawConn) throw new Error("Can't get local description after connection is closed");
 
         let setupChannel: NodeDataChannel.DataChannel | undefined;
@@ -203,14 +408,7 @@ export class RTCConnection extends EventEmitter {
             setupChannel = this.rawConn.createDataChannel('mockrtc.setup-channel');
         }
 
-        await new Promise<void>((resolve) => {
-            this.rawConn!.onGatheringStateChange((state) => {
-                if (state === 'complete') resolve();
-            });
-
-            // Handle race conditions where gathering has already completed
-            if (this.rawConn!.gatheringState() === 'complete') resolve();
-        });
+        await this.waitForGathering(options);
 
         if (!this.rawConn) throw new Error("Connection was closed while building local description");
 
@@ -260,7 +458,7 @@ export class RTCConnection extends EventEmitter {
 
     async getMirroredLocalOffer(
         sdpToMirror: string,
-        options: { addDataStream?: boolean } = {}
+        options: { addDataStream?: boolean, trickleIce?: boolean } = {}
     ): Promise<MockRTCSessionDescription> {
         if (!this.rawConn) throw new Error("Can't get local description after connection is closed");
 
@@ -309,10 +507,18 @@ export class RTCConnection extends EventEmitter {
             this.trackNewMediaTrack(track, { isLocal: true });
         });
 
+        // When renegotiating, any data stream has already been negotiated, and a setup channel would
+        // be opened for real, so we only create one for the initial negotiation:
+        const hasNegotiatedDataStream = !!this.localDescription?.parsedSdp.media
+            .some(media => media.type === 'application');
+
         let setupChannel: NodeDataChannel.DataChannel | undefined;
         const channelRequiredForDescription = this.rawConn.gatheringState() === 'new' &&
             !mediaStreamsToMirror.length;
-        if (shouldMirrorDataStream || channelRequiredForDescription || options.addDataStream) {
+        if (
+            !hasNegotiatedDataStream &&
+            (shouldMirrorDataStream || channelRequiredForDescription || options.addDataStream)
+        ) {
             // See getLocalDescription() above: if we want a description and we have no media, we
             // need to make a stub channel to allow us to negotiate _something_.
             // In addition, we might actually have data channels to mirror. In that case, we need
@@ -322,14 +528,7 @@ export class RTCConnection extends EventEmitter {
         }
 
         this.rawConn.setLocalDescription(NodeDataChannel.DescriptionType.Offer);
-        await new Promise<void>((resolve) => {
-            this.rawConn!.onGatheringStateChange((state) => {
-                if (state === 'complete') resolve();
-            });
-
-            // Handle race conditions where gathering has already completed
-            if (this.rawConn!.gatheringState() === 'complete') resolve();
-        });
+        await this.waitForGathering(options);
 
         if (!this.rawConn) throw new Error("Connection was closed while building the local description");
 
@@ -394,10 +593,11 @@ export class RTCConnection extends EventEmitter {
 
             if (options.mirrorSDP) {
                 return this.getMirroredLocalOffer(options.mirrorSDP, {
-                    addDataStream: !!options.addDataStream
+                    addDataStream: !!options.addDataStream,
+                    trickleIce: options.trickleIce
                 });
             } else {
-                return this.buildLocalDescription();
+                return this.buildLocalDescription({ trickleIce: options.trickleIce });
             }
         },
 
@@ -421,8 +621,34 @@ export class RTCConnection extends EventEmitter {
             if (options.mirrorSDP) {
                 return this.getMirroredLocalAnswer(options.mirrorSDP);
             } else {
-                return this.buildLocalDescription();
+                return this.buildLocalDescription({ trickleIce: options.trickleIce });
             }
+        },
+
+        addIceCandidate: async (candidate: RTCIceCandidateInit | null): Promise<void> => {
+            this.addRemoteCandidate(candidate);
+        },
+
+        onLocalIceCandidate: async (
+            callback: (candidate: RTCIceCandidateInit | null) => void
+        ): Promise<void> => {
+            this.onLocalCandidate(callback);
+        },
+
+        setNetworkConditions: async (conditions: NetworkConditions): Promise<void> => {
+            this.setNetworkConditions(conditions);
+        },
+
+        injectMessage: async (options: InjectMessageOptions): Promise<void> => {
+            await this.injectMessage(options);
+        },
+
+        resumeMessage: async (messageId: string, message?: string | Buffer): Promise<void> => {
+            this.releaseHeldMessage(messageId, message);
+        },
+
+        dropMessage: async (messageId: string): Promise<void> => {
+            this.releaseHeldMessage(messageId, null);
         }
     };
 
@@ -441,6 +667,30 @@ export class RTCConnection extends EventEmitter {
 
 }
 
+function buildRtcConfig(options: RTCConnectionOptions): NodeDataChannel.RtcConfig {
+    return {
+        iceServers: (options.iceServers ?? []).flatMap((server) => {
+            if (typeof server === 'string') return [server];
+
+            const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+            if (server.username === undefined) return urls;
+
+            // Node-DataChannel only accepts TURN credentials embedded within the URL itself:
+            const credentials = `${encodeURIComponent(server.username)}:${
+                encodeURIComponent(server.credential ?? '')
+            }@`;
+            return urls.map((url) => url.replace(/^(turns?):/, `$1:${credentials}`));
+        }),
+        iceTransportPolicy: options.iceTransportPolicy,
+        portRangeBegin: options.portRange?.min,
+        portRangeEnd: options.portRange?.max,
+        bindAddress: options.bindAddress,
+        enableIceTcp: options.enableIceTcp,
+        mtu: options.mtu,
+        maxMessageSize: options.maxMessageSize
+    };
+}
+
 function sdpDirectionToNDCDirection(direction: SDP.SharedAttributes['direction']): NodeDataChannel.Direction {
     if (direction === 'inactive') return NodeDataChannel.Direction.Inactive;
     else if (direction?.length === 8) {
@@ -0,0 +1,68 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A parsed RTP packet. Only the fields that MockRTC actually uses are exposed here: CSRCs,
+ * header extensions & padding are skipped when parsing, and are never generated.
+ */
+export interface RtpPacket {
+    marker: boolean;
+    payloadType: number;
+    sequenceNumber: number;
+    timestamp: number;
+    ssrc: number;
+    payload: Buffer;
+}
+
+const RTP_HEADER_LENGTH = 12;
+
+/**
+ * Checks whether a UDP payload or media track message looks like an RTP packet (rather than
+ * RTCP, STUN, DTLS or anything else that might be multiplexed on the same port).
+ */
+export function isRtpPacket(data: Buffer) {
+    if (data.byteLength < RTP_HEADER_LENGTH) return false;
+    if (data[0] >> 6 !== 2) return false; // Only RTP v2 exists in practice
+
+    // RTCP packet types 192-223 overlap with RTP marker bit + payload type, so exclude those:
+    const packetType = data[1];
+    return packetType < 192 || packetType > 223;
+}
+
+export function parseRtpPacket(data: Buffer): RtpPacket {
+    if (!isRtpPacket(data)) throw new Error('Cannot parse invalid RTP packet');
+
+    const hasPadding = !!(data[0] & 0x20);
+    const hasExtension = !!(data[0] & 0x10);
+    const csrcCount = data[0] & 0x0f;
+
+    let payloadOffset = RTP_HEADER_LENGTH + csrcCount * 4;
+    if (hasExtension) {
+        const extensionLength = data.readUInt16BE(payloadOffset + 2);
+        payloadOffset += 4 + extensionLength * 4;
+    }
+
+    const paddingLength = hasPadding ? data[data.byteLength - 1] : 0;
+
+    return {
+        marker: !!(data[1] & 0x80),
+        payloadType: data[1] & 0x7f,
+        sequenceNumber: data.readUInt16BE(2),
+        timestamp: data.readUInt32BE(4),
+        ssrc: data.readUInt32BE(8),
+        payload: data.subarray(payloadOffset, data.byteLength - paddingLength)
+    };
+}
+
+export function buildRtpPacket(packet: RtpPacket): Buffer {
+    const header = Buffer.alloc(RTP_HEADER_LENGTH);
+    header[0] = 0x80; // Version 2, no padding, extensions or CSRCs
+    header[1] = (packet.marker ? 0x80 : 0) | (packet.payloadType & 0x7f);
+    header.writeUInt16BE(packet.sequenceNumber & 0xffff, 2);
+    header.writeUInt32BE(packet.timestamp >>> 0, 4);
+    header.writeUInt32BE(packet.ssrc >>> 0, 8);
+
+    return Buffer.concat([header, packet.payload]);
+}
@@ -0,0 +1,93 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    delay,
+    waitForChannelOpen
+} from '../test-setup';
+
+describe("Callback steps", function () {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should respond to messages using the callback result", async () => {
+        const seenCalls: Array<{ message: string | Buffer, channelLabel: string, sessionId: string }> = [];
+
+        const mockPeer = await mockRTC.buildPeer()
+            .thenCallback(async (message, channel, session) => {
+                seenCalls.push({ message, channelLabel: channel.label, sessionId: session.sessionId });
+
+                if (message === 'ignore me') return;
+                else if (message === 'multiple') return ['response 1', 'response 2'];
+                else return `Received: ${message}`;
+            });
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer, session } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hello');
+        dataChannel.send('ignore me');
+        dataChannel.send('multiple');
+
+        await delay(200);
+
+        expect(messages).to.deep.equal([
+            'Received: hello',
+            'response 1',
+            'response 2'
+        ]);
+
+        expect(seenCalls).to.deep.equal([
+            { message: 'hello', channelLabel: 'dataChannel', sessionId: session.sessionId },
+            { message: 'ignore me', channelLabel: 'dataChannel', sessionId: session.sessionId },
+            { message: 'multiple', channelLabel: 'dataChannel', sessionId: session.sessionId }
+        ]);
+    });
+
+    it("should preserve response ordering for slow callbacks", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .thenCallback(async (message) => {
+                if (message === 'slow') await delay(100);
+                return `${message} response`;
+            });
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('slow');
+        dataChannel.send('fast');
+
+        await delay(300);
+
+        expect(messages).to.deep.equal([
+            'slow response',
+            'fast response'
+        ]);
+    });
+
+});
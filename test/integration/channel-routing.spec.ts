@@ -0,0 +1,165 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    waitForChannelOpen,
+    delay
+} from '../test-setup';
+
+describe("When routing data channels", () => {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should be able to proxy some channels while mocking or dropping others", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remoteChannels: string[] = [];
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+
+        remoteConn.addEventListener('datachannel', ({ channel }) => {
+            remoteChannels.push(channel.label);
+            channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .routeChannel('telemetry', (channel) => channel.thenReplyTo(/.*/, 'ack'))
+            .routeChannel('ads', 'drop')
+            .thenForwardTo(remoteConn);
+
+        const localConn = new RTCPeerConnection();
+        const chatChannel = localConn.createDataChannel("chat");
+        const telemetryChannel = localConn.createDataChannel("telemetry");
+        const adsChannel = localConn.createDataChannel("ads");
+
+        const telemetryResponses: Array<string | Buffer> = [];
+        telemetryChannel.addEventListener('message', ({ data }) => telemetryResponses.push(data));
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await Promise.all([chatChannel, telemetryChannel, adsChannel].map(waitForChannelOpen));
+
+        chatChannel.send('chat message');
+        telemetryChannel.send('telemetry message');
+        adsChannel.send('ads message');
+
+        await delay(200);
+
+        expect(remoteChannels).to.deep.equal(['chat']);
+        expect(remotelyReceivedMessages).to.deep.equal(['chat message']);
+        expect(telemetryResponses).to.deep.equal(['ack']);
+    });
+
+    it("should keep callbacks in separate steps of a mocked channel separate", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .routeChannel('mocked', (channel) => channel
+                .waitForNextMessage()
+                .ifMessageMatches(/^a/, (steps) => steps.thenCallback((message) => `a: ${message}`))
+                .waitForNextMessage()
+                .ifMessageMatches(/^b/, (steps) => steps.thenCallback((message) => `b: ${message}`))
+            )
+            .sleep(10000)
+            .thenClose();
+
+        const localConn = new RTCPeerConnection();
+        const mockedChannel = localConn.createDataChannel("mocked");
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        const responsePromise = new Promise((resolve) =>
+            mockedChannel.addEventListener('message', ({ data }) => resolve(data))
+        );
+
+        await waitForChannelOpen(mockedChannel);
+        mockedChannel.send('b1'); // Doesn't match the first condition
+        await delay(50);
+        mockedChannel.send('b2'); // Matches the second condition
+        await delay(50);
+        mockedChannel.send('b3'); // Handled by the second condition's callback
+
+        expect(await responsePromise).to.equal('b: b3');
+        localConn.close();
+    });
+
+    it("should hide mocked and dropped channels from the connection's other steps", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .routeChannel('telemetry', (channel) => channel.thenReplyTo(/.*/, 'ack'))
+            .routeChannel('ads', 'drop')
+            .thenEcho();
+
+        const localConn = new RTCPeerConnection();
+        const chatChannel = localConn.createDataChannel("chat");
+        const telemetryChannel = localConn.createDataChannel("telemetry");
+        const adsChannel = localConn.createDataChannel("ads");
+
+        const receivedMessages: { [label: string]: Array<string | Buffer> } = {
+            chat: [],
+            telemetry: [],
+            ads: []
+        };
+        [chatChannel, telemetryChannel, adsChannel].forEach((channel) => {
+            channel.addEventListener('message', ({ data }) => receivedMessages[channel.label].push(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await Promise.all([chatChannel, telemetryChannel, adsChannel].map(waitForChannelOpen));
+
+        chatChannel.send('chat message');
+        telemetryChannel.send('telemetry message');
+        adsChannel.send('ads message');
+
+        await delay(200);
+
+        expect(receivedMessages).to.deep.equal({
+            chat: ['chat message'], // Echoed
+            telemetry: ['ack'], // Mocked, but not echoed
+            ads: [] // Dropped, not echoed
+        });
+
+        localConn.close();
+    });
+
+    it("should proxy channels whose labels match object properties", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+        remoteConn.addEventListener('datachannel', ({ channel }) => {
+            channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .routeChannel('ads', 'drop')
+            .thenForwardTo(remoteConn);
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("constructor");
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('proxied message');
+
+        await delay(200);
+        expect(remotelyReceivedMessages).to.deep.equal(['proxied message']);
+
+        localConn.close();
+    });
+
+});
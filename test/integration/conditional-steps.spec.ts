@@ -0,0 +1,167 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    waitForChannelOpen
+} from '../test-setup';
+
+describe("Conditional steps", function () {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should run the matching branch for a message matching a regex", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches(/^hello/,
+                (steps) => steps.send('matched'),
+                (steps) => steps.send('not matched')
+            )
+            .thenSend('done');
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hello world');
+
+        await closedPromise;
+        expect(messages).to.deep.equal(['matched', 'done']);
+    });
+
+    it("should run the else branch for a message that doesn't match", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches(/^hello/,
+                (steps) => steps.send('matched'),
+                (steps) => steps.send('not matched')
+            )
+            .thenSend('done');
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('goodbye world');
+
+        await closedPromise;
+        expect(messages).to.deep.equal(['not matched', 'done']);
+    });
+
+    it("should be able to match JSON messages, and nest conditions", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches({ type: 'auth' }, (steps) => steps
+                .send('authed')
+                .waitForNextMessage()
+                .ifMessageMatches({ type: 'request', params: { id: 1 } },
+                    (steps) => steps.send('response 1'),
+                    (steps) => steps.send('unknown request')
+                )
+            , (steps) => steps
+                .send('unauthorized')
+                .thenClose()
+            )
+            .thenSend('done');
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send(JSON.stringify({ type: 'auth', token: 'abc' }));
+        dataChannel.send(JSON.stringify({ type: 'request', params: { id: 1, extra: true } }));
+
+        await closedPromise;
+        expect(messages).to.deep.equal(['authed', 'response 1', 'done']);
+    });
+
+    it("should stop handling after a branch ends with a final step", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches(/^hello/,
+                (steps) => steps.send('matched').thenClose()
+            )
+            .thenSend('done');
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hello world');
+
+        await closedPromise;
+        expect(messages).to.deep.equal(['matched']);
+    });
+
+    it("should keep callbacks in each branch separate", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches(/^hello/,
+                (steps) => steps.thenCallback((message) => `then: ${message}`),
+                (steps) => steps.thenCallback((message) => `else: ${message}`)
+            )
+            .thenClose(); // Never reached, as both branches end with final steps
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const responsePromise = new Promise((resolve) =>
+            dataChannel.addEventListener('message', (event) => resolve(event.data))
+        );
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hello world');
+        dataChannel.send('second message');
+
+        expect(await responsePromise).to.equal('then: second message');
+        localConnection.close();
+    });
+
+});
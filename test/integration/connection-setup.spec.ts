@@ -46,6 +46,35 @@ describe("When connecting, MockRTC", function () {
         await waitForState(localConnection, 'connected');
     });
 
+    it("should be able to connect by trickling ICE candidates in both directions", async () => {
+        const mockPeer = await mockRTC.buildPeer().waitForNextMessage().thenSend('Goodbye');
+
+        const localConnection = new RTCPeerConnection();
+
+        const { offer, setAnswer, session } = await mockPeer.createOffer({ trickleIce: true });
+        await localConnection.setRemoteDescription(offer);
+
+        const mockCandidates: Array<RTCIceCandidateInit | null> = [];
+        await session.onLocalIceCandidate((candidate) => {
+            mockCandidates.push(candidate);
+            localConnection.addIceCandidate(candidate ?? undefined);
+        });
+
+        localConnection.addEventListener('icecandidate', ({ candidate }) => {
+            session.addIceCandidate(candidate);
+        });
+
+        const localAnswer = await localConnection.createAnswer();
+        await localConnection.setLocalDescription(localAnswer);
+        await setAnswer(localAnswer);
+
+        // Wait until the connection opens successfully:
+        await waitForState(localConnection, 'connected');
+
+        expect(mockCandidates.length).to.be.greaterThan(1);
+        expect(mockCandidates[mockCandidates.length - 1]).to.equal(null);
+    });
+
     it("should be able to renegotiate after a mock offer was accepted", async () => {
         const mockPeer = await mockRTC.buildPeer().waitForNextMessage().thenSend('Goodbye');
 
@@ -73,6 +102,28 @@ describe("When connecting, MockRTC", function () {
         expect(updatedMedia.map(m => m.type)).to.include('audio');
     });
 
+    it("should only use ports within the range configured for the peer", async () => {
+        const mockPeer = await mockRTC.buildPeer({
+            connectionOptions: { portRange: { min: 50000, max: 50010 } }
+        }).waitForNextMessage().thenSend('Goodbye');
+
+        const localConnection = new RTCPeerConnection();
+        localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+        await waitForState(localConnection, 'connected');
+
+        const candidates = SDP.parse(answer.sdp!).media[0].candidates!;
+        expect(candidates.length).to.be.greaterThan(0);
+        candidates.forEach((candidate) => {
+            expect(candidate.port).to.be.within(50000, 50010);
+        });
+    });
+
     it("should be able to renegotiate after answering a local offer", async () => {
         const mockPeer = await mockRTC.buildPeer().waitForNextMessage().thenSend('Goodbye');
 
@@ -0,0 +1,82 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    getDeferred,
+    waitForChannelOpen
+} from '../test-setup';
+import { GreetingStep, SourcePathMatcher } from '../test-extensions';
+
+describe("Custom extensions", function () {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should allow matching & handling connections with custom matchers & steps", async () => {
+        await mockRTC.forConnections()
+            .withMatcher(new SourcePathMatcher('/greet-me'))
+            .waitForChannel()
+            .thenStep(new GreetingStep('custom rule'));
+
+        await mockRTC.forConnections()
+            .thenClose();
+
+        const matchingPeer = mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const messagePromise = getDeferred<string>();
+        dataChannel.addEventListener('message', ({ data }) => messagePromise.resolve(data));
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await matchingPeer.answerOffer(localOffer, {
+            connectionMetadata: {
+                sourceURL: 'https://example.com/greet-me?a=b'
+            }
+        });
+        await localConn.setRemoteDescription(answer);
+
+        expect(await messagePromise).to.equal('Hello custom rule');
+
+        const [rule] = await mockRTC.getRules();
+        expect(rule.explanation).to.equal(
+            "Match connections from a page at /greet-me, and then wait for an RTC channel, greet custom rule."
+        );
+    });
+
+    it("should allow using custom steps within other steps", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches(/^hello/,
+                [new GreetingStep('nested step')]
+            )
+            .thenSend('done');
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hello world');
+
+        await closedPromise;
+        expect(messages).to.deep.equal(['Hello nested step', 'done']);
+    });
+
+});
@@ -3,15 +3,23 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { MockRTCEventData } from '../../src/mockrtc';
 import {
     MockRTC,
     expect,
-    delay
+    delay,
+    getDeferred,
+    waitForState,
+    waitForChannelOpen
 } from '../test-setup';
 
 describe("Connection rule matching", () => {
 
-    const mockRTC = MockRTC.getRemote({ recordMessages: true });
+    const mockRTC = MockRTC.getRemote({
+        recordMessages: true,
+        // Channel & message matchers that don't match wait for this long, before later rules are used:
+        ruleMatchingTimeout: 500
+    });
 
     beforeEach(() => mockRTC.start());
     afterEach(() => mockRTC.stop());
@@ -254,4 +262,543 @@ describe("Connection rule matching", () => {
         const receivedMessage = await messagePromise;
         expect(receivedMessage).to.equal('hello Firefox');
     });
+
+    it("can match connections by data channel label", async () => {
+        await mockRTC.forConnections()
+            .withChannelLabel('chat')
+            .waitForChannel()
+            .thenSend('hello chat');
+
+        await mockRTC.forConnections()
+            .withChannelLabel('telemetry')
+            .waitForChannel()
+            .thenSend('hello telemetry');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("telemetry");
+
+        const messagePromise = new Promise((resolve) => {
+            dataChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await matchingPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        // Wait until the matching handler sends the configured message:
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('hello telemetry');
+    });
+
+    it("can match connections by the label of any data channel, when several open together", async () => {
+        await mockRTC.forConnections()
+            .withChannelLabel('chat')
+            .waitForChannel()
+            .thenSend('hello chat');
+
+        await mockRTC.forConnections()
+            .withChannelLabel('telemetry')
+            .waitForChannel()
+            .thenSend('hello telemetry');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection();
+        localConn.createDataChannel("control");
+        const chatChannel = localConn.createDataChannel("chat");
+
+        const messagePromise = new Promise((resolve) => {
+            chatChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await matchingPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        // The control channel is created first, but the chat channel should still match:
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('hello chat');
+    });
+
+    it("can match connections by data channel protocol", async () => {
+        await mockRTC.forConnections()
+            .withChannelProtocol('chat-v1')
+            .waitForChannel()
+            .thenSend('hello v1');
+
+        await mockRTC.forConnections()
+            .withChannelProtocol('chat-v2')
+            .waitForChannel()
+            .thenSend('hello v2');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection();
+        localConn.createDataChannel("control");
+        const chatChannel = localConn.createDataChannel("chat", { protocol: 'chat-v2' });
+
+        const messagePromise = new Promise((resolve) => {
+            chatChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await matchingPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('hello v2');
+    });
+
+    it("can match connections by their first message", async () => {
+        await mockRTC.forConnections()
+            .withFirstMessageMatching({ type: 'join', room: 'lobby' })
+            .waitForNextMessage()
+            .thenSend('welcome to the lobby');
+
+        await mockRTC.forConnections()
+            .withFirstMessageMatching(/^ping/)
+            .waitForNextMessage()
+            .thenSend('pong');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const messagePromise = new Promise((resolve) => {
+            dataChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await matchingPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send(JSON.stringify({ type: 'join', room: 'lobby', user: 'bob' }));
+
+        // The first message is matched, and then still received by the rule's steps:
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('welcome to the lobby');
+        expect(await matchingPeer.getAllMessages()).to.deep.equal([
+            JSON.stringify({ type: 'join', room: 'lobby', user: 'bob' })
+        ]);
+    });
+
+    it("can match connections by their negotiated video codecs", async () => {
+        // Registered first, so this would match all connections that offer H264 at all, if it
+        // wasn't checking the codec that's actually negotiated:
+        await mockRTC.forConnections()
+            .withVideoCodec('H264')
+            .waitForChannel()
+            .thenSend('hello h264');
+
+        await mockRTC.forConnections()
+            .withVideoCodec('VP8')
+            .waitForChannel()
+            .thenSend('hello vp8');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        // Connects with a video track, offering the given codec first, and resolves with the first
+        // message received from the mock peer:
+        const connectPreferringCodec = async (codec: string, options: { only: boolean }) => {
+            const localConn = new RTCPeerConnection();
+            const dataChannel = localConn.createDataChannel("dataChannel");
+
+            const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+            const transceiver = localConn.addTransceiver(stream.getTracks()[0], { streams: [stream] });
+
+            const isPreferred = ({ mimeType }: { mimeType: string }) =>
+                mimeType.toLowerCase() === `video/${codec.toLowerCase()}`;
+            const allCodecs = RTCRtpSender.getCapabilities('video')!.codecs;
+            transceiver.setCodecPreferences([
+                ...allCodecs.filter(isPreferred),
+                ...(options.only ? [] : allCodecs.filter(c => !isPreferred(c)))
+            ]);
+
+            const messagePromise = new Promise((resolve) => {
+                dataChannel.addEventListener('message', ({ data }) => resolve(data));
+            });
+
+            const localOffer = await localConn.createOffer();
+            await localConn.setLocalDescription(localOffer);
+            const { answer } = await matchingPeer.answerOffer(localOffer);
+            await localConn.setRemoteDescription(answer);
+
+            const message = await messagePromise;
+            localConn.close();
+            return message;
+        };
+
+        // Only H264, as Safari often does:
+        expect(await connectPreferringCodec('H264', { only: true })).to.equal('hello h264');
+
+        // Preferring VP8, but still offering H264, as Chrome does:
+        expect(await connectPreferringCodec('VP8', { only: false })).to.equal('hello vp8');
+    });
+
+    it("can match connections with an SDP callback", async () => {
+        const seenMediaTypes: string[][] = [];
+
+        await mockRTC.forConnections()
+            .withSdpMatching((remoteSdp) => {
+                const mediaTypes = remoteSdp.media.map(({ type }) => type);
+                seenMediaTypes.push(mediaTypes);
+                return mediaTypes.includes('audio');
+            })
+            .waitForChannel()
+            .thenSend('hello audio');
+
+        await mockRTC.forConnections()
+            .waitForChannel()
+            .thenSend('hello other');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const messagePromise = new Promise((resolve) => {
+            dataChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+        const { answer } = await matchingPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        // Wait until the matching handler sends the configured message:
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('hello other');
+        expect(seenMediaTypes).to.deep.equal([['application']]);
+    });
+
+    it("can match connections by extra metadata from hooked connections", async () => {
+        await mockRTC.forConnections()
+            .withMetadata('testName', /^metadata/)
+            .withMetadataMatching({ tenant: { id: 123 } })
+            .waitForChannel()
+            .thenSend('hello metadata test');
+
+        await mockRTC.forConnections()
+            .waitForChannel()
+            .thenSend('hello other test');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const remoteConn = new RTCPeerConnection();
+
+        const localConn = new RTCPeerConnection();
+        MockRTC.hookWebRTCConnection(localConn, matchingPeer, {
+            testName: 'metadata matching',
+            tenant: { id: 123, name: 'Test Tenant' }
+        });
+
+        const dataChannel = localConn.createDataChannel("dataChannel");
+        const messagePromise = new Promise((resolve) => {
+            dataChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        const localOffer = await localConn.createOffer();
+        await localConn.setLocalDescription(localOffer);
+
+        await remoteConn.setRemoteDescription(localOffer);
+        const remoteAnswer = await remoteConn.createAnswer();
+        await remoteConn.setLocalDescription(remoteAnswer);
+
+        await localConn.setRemoteDescription(remoteAnswer);
+
+        // Wait until the matching handler sends the configured message:
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('hello metadata test');
+    });
+
+    it("can match connections with combined & negated matchers", async () => {
+        const { HostnameMatcher, UserAgentRegexMatcher } = MockRTC.matchers;
+
+        // Matches everything except staging, for Firefox & Chrome:
+        await mockRTC.forConnections()
+            .withNot(new HostnameMatcher('staging.example.com'))
+            .withAnyOf([
+                new UserAgentRegexMatcher(/Firefox/),
+                new UserAgentRegexMatcher(/Chrome/)
+            ])
+            .waitForChannel()
+            .thenSend('hello production');
+
+        await mockRTC.forConnections()
+            .waitForChannel()
+            .thenSend('hello staging');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const connectAndReadMessage = async (sourceURL: string) => {
+            const localConn = new RTCPeerConnection();
+            const dataChannel = localConn.createDataChannel("dataChannel");
+
+            const messagePromise = new Promise((resolve) => {
+                dataChannel.addEventListener('message', ({ data }) => resolve(data));
+            });
+
+            const localOffer = await localConn.createOffer();
+            await localConn.setLocalDescription(localOffer);
+            const { answer } = await matchingPeer.answerOffer(localOffer, {
+                connectionMetadata: {
+                    sourceURL,
+                    userAgent: 'Mozilla/5.0 Chrome/100.0'
+                }
+            });
+            await localConn.setRemoteDescription(answer);
+
+            return messagePromise;
+        };
+
+        expect(await connectAndReadMessage('https://example.com/')).to.equal('hello production');
+        expect(await connectAndReadMessage('https://staging.example.com/')).to.equal('hello staging');
+    });
+
+    describe("with completion limits & priorities", () => {
+
+        async function connectAndReadMessage(matchingPeer: MockRTC.MockRTCPeer) {
+            const localConn = new RTCPeerConnection();
+            const dataChannel = localConn.createDataChannel("dataChannel");
+
+            const messagePromise = new Promise((resolve) => {
+                dataChannel.addEventListener('message', ({ data }) => resolve(data));
+            });
+
+            const localOffer = await localConn.createOffer();
+            await localConn.setLocalDescription(localOffer);
+            const { answer } = await matchingPeer.answerOffer(localOffer);
+            await localConn.setRemoteDescription(answer);
+
+            const message = await messagePromise;
+            localConn.close();
+            return message;
+        }
+
+        it("uses each rule in turn, until its limit is reached", async () => {
+            await mockRTC.forConnections()
+                .once()
+                .waitForChannel()
+                .thenSend('first');
+
+            await mockRTC.forConnections()
+                .times(2)
+                .waitForChannel()
+                .thenSend('second');
+
+            await mockRTC.forConnections()
+                .waitForChannel()
+                .thenSend('default');
+
+            const matchingPeer = await mockRTC.getMatchingPeer();
+
+            const messages = [];
+            for (let i = 0; i < 5; i++) {
+                messages.push(await connectAndReadMessage(matchingPeer));
+            }
+
+            expect(messages).to.deep.equal([
+                'first',
+                'second',
+                'second',
+                'default',
+                'default' // The last default rule is reused once all others are done
+            ]);
+
+            const rules = await mockRTC.getRules();
+            expect(rules.map(r => r.hitCount)).to.deep.equal([1, 2, 2]);
+            expect(rules.map(r => r.isPending())).to.deep.equal([false, false, false]);
+            expect(rules[1].explanation).to.equal(
+                "Match all connections, and then wait for an RTC channel, " +
+                "send an RTC data message, 2 times (done)."
+            );
+        });
+
+        it("prefers matching rules with higher priorities", async () => {
+            await mockRTC.forConnections()
+                .waitForChannel()
+                .thenSend('low priority');
+
+            await mockRTC.forConnections()
+                .withDataChannels()
+                .asPriority(5)
+                .always()
+                .waitForChannel()
+                .thenSend('high priority');
+
+            const matchingPeer = await mockRTC.getMatchingPeer();
+
+            expect(await connectAndReadMessage(matchingPeer)).to.equal('high priority');
+            expect(await connectAndReadMessage(matchingPeer)).to.equal('high priority');
+
+            const rules = await mockRTC.getRules();
+            expect(rules.map(r => r.priority)).to.deep.equal([0, 5]);
+            expect(rules.map(r => r.hitCount)).to.deep.equal([0, 2]);
+
+            // Unused rules are still pending, and always() rules are always pending:
+            expect(rules.map(r => r.isPending())).to.deep.equal([true, true]);
+        });
+
+    });
+});
+
+describe("Unmatched connection handling", () => {
+
+    describe("when configured to close connections", () => {
+
+        const mockRTC = MockRTC.getRemote({ unmatchedConnections: 'close' });
+
+        beforeEach(() => mockRTC.start());
+        afterEach(() => mockRTC.stop());
+
+        it("closes unmatched connections, and emits an event", async () => {
+            const unmatchedEvent = getDeferred<MockRTCEventData['connection-unmatched']>();
+            await mockRTC.on('connection-unmatched', (event) => unmatchedEvent.resolve(event));
+
+            await mockRTC.forConnections()
+                .fromPageHostname('example.com')
+                .thenEcho();
+
+            const matchingPeer = await mockRTC.getMatchingPeer();
+
+            const localConn = new RTCPeerConnection();
+            localConn.createDataChannel("dataChannel");
+
+            const localOffer = await localConn.createOffer();
+            await localConn.setLocalDescription(localOffer);
+            const { answer, session } = await matchingPeer.answerOffer(localOffer, {
+                connectionMetadata: {
+                    sourceURL: 'https://other.example/page'
+                }
+            });
+            await localConn.setRemoteDescription(answer);
+
+            const event = await unmatchedEvent;
+            expect(event.peerId).to.equal('matching-peer');
+            expect(event.sessionId).to.equal(session.sessionId);
+            expect(event.metadata.sourceURL).to.equal('https://other.example/page');
+            expect(event.remoteSessionDescription.sdp).to.equal(localOffer.sdp);
+
+            await waitForState(localConn, 'disconnected');
+        });
+
+    });
+
+    describe("when configured to reject connections", () => {
+
+        const mockRTC = MockRTC.getRemote({ unmatchedConnections: 'reject' });
+
+        beforeEach(() => mockRTC.start());
+        afterEach(() => mockRTC.stop());
+
+        it("closes unmatched connections, and emits a rejection event", async () => {
+            const unmatchedEvent = getDeferred<MockRTCEventData['connection-unmatched']>();
+            await mockRTC.on('connection-unmatched', (event) => unmatchedEvent.resolve(event));
+            const rejectedEvent = getDeferred<MockRTCEventData['connection-rejected']>();
+            await mockRTC.on('connection-rejected', (event) => rejectedEvent.resolve(event));
+
+            const matchingPeer = await mockRTC.getMatchingPeer();
+
+            const localConn = new RTCPeerConnection();
+            localConn.createDataChannel("dataChannel");
+
+            const localOffer = await localConn.createOffer();
+            await localConn.setLocalDescription(localOffer);
+            const { answer, session } = await matchingPeer.answerOffer(localOffer, {
+                connectionMetadata: {
+                    sourceURL: 'https://other.example/page'
+                }
+            });
+            await localConn.setRemoteDescription(answer);
+
+            const event = await rejectedEvent;
+            expect(event.peerId).to.equal('matching-peer');
+            expect(event.sessionId).to.equal(session.sessionId);
+            expect(event.metadata.sourceURL).to.equal('https://other.example/page');
+            expect(event.errorMessage).to.equal('RTC connection did not match any rules');
+
+            expect((await unmatchedEvent).sessionId).to.equal(session.sessionId);
+
+            await waitForState(localConn, 'disconnected');
+        });
+
+    });
+
+    describe("when waiting for a data channel that's never opened", () => {
+
+        const mockRTC = MockRTC.getRemote({
+            unmatchedConnections: 'reject',
+            ruleMatchingTimeout: 500
+        });
+
+        beforeEach(() => mockRTC.start());
+        afterEach(() => mockRTC.stop());
+
+        it("stops matching once the timeout passes", async () => {
+            const rejectedEvent = getDeferred<MockRTCEventData['connection-rejected']>();
+            await mockRTC.on('connection-rejected', (event) => rejectedEvent.resolve(event));
+
+            await mockRTC.forConnections()
+                .withChannelLabel('chat')
+                .thenEcho();
+
+            const matchingPeer = await mockRTC.getMatchingPeer();
+
+            // A media-only connection, which never opens any data channels:
+            const localConn = new RTCPeerConnection();
+            const localOffer = await localConn.createOffer({ offerToReceiveAudio: true });
+            await localConn.setLocalDescription(localOffer);
+            const { answer, session } = await matchingPeer.answerOffer(localOffer);
+            await localConn.setRemoteDescription(answer);
+
+            await waitForState(localConn, 'connected');
+            const connectedTime = Date.now();
+
+            const event = await rejectedEvent;
+            expect(event.sessionId).to.equal(session.sessionId);
+            expect(Date.now() - connectedTime).to.be.greaterThanOrEqual(400);
+            expect(Date.now() - connectedTime).to.be.lessThan(1500);
+        });
+
+    });
+
+    describe("when configured with default steps", () => {
+
+        const mockRTC = MockRTC.getRemote({
+            unmatchedConnections: [
+                new MockRTC.steps.WaitForChannelStep(),
+                new MockRTC.steps.SendStep(undefined, 'unmatched')
+            ]
+        });
+
+        beforeEach(() => mockRTC.start());
+        afterEach(() => mockRTC.stop());
+
+        it("runs the default steps for unmatched connections", async () => {
+            const matchingPeer = await mockRTC.getMatchingPeer();
+
+            const localConn = new RTCPeerConnection();
+            const dataChannel = localConn.createDataChannel("dataChannel");
+
+            const messagePromise = new Promise((resolve) => {
+                dataChannel.addEventListener('message', ({ data }) => resolve(data));
+            });
+
+            const localOffer = await localConn.createOffer();
+            await localConn.setLocalDescription(localOffer);
+            const { answer } = await matchingPeer.answerOffer(localOffer);
+            await localConn.setRemoteDescription(answer);
+
+            expect(await messagePromise).to.equal('unmatched');
+        });
+
+    });
 });
\ No newline at end of file
@@ -0,0 +1,143 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    waitForInboundMedia
+} from '../test-setup';
+
+// Two seconds of silent mono Opus audio. Paths are relative to the admin server's working
+// directory, i.e. the project root:
+const OPUS_FIXTURE = 'test/fixtures/silence.ogg';
+
+// One second of 1x1 VP8 video, as 30 keyframes:
+const VP8_FIXTURE = 'test/fixtures/keyframes.ivf';
+
+// A capture of 50 silent Opus RTP packets (payload type 111, as used by Chrome & Firefox),
+// sent 20ms apart, i.e. spread over one second:
+const RTP_FIXTURE = 'test/fixtures/silence.pcap';
+
+describe("Media playback", function () {
+
+    this.timeout(5000);
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should play an Ogg Opus file into an audio track", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .playMedia({ source: OPUS_FIXTURE })
+            .thenClose();
+
+        const localConnection = new RTCPeerConnection();
+        const receivedTrack = new Promise<RTCTrackEvent>((resolve) =>
+            localConnection.addEventListener('track', resolve)
+        );
+
+        const localOffer = await localConnection.createOffer({ offerToReceiveAudio: true });
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const { track } = await receivedTrack;
+        expect(track.kind).to.equal('audio');
+
+        const inboundStats = await waitForInboundMedia(localConnection,
+            (report) => report.kind === 'audio' && report.totalSamplesReceived > 0
+        );
+        expect(inboundStats.packetsReceived).to.be.greaterThan(0);
+        // The fixture contains 100 packets, so we can't have received more than that:
+        expect(inboundStats.packetsReceived).to.be.lessThanOrEqual(100);
+
+        localConnection.close();
+    });
+
+    it("should play into the requested track kind", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .playMedia({ source: OPUS_FIXTURE, kind: 'audio' })
+            .thenClose();
+
+        const localConnection = new RTCPeerConnection();
+        const localOffer = await localConnection.createOffer({
+            offerToReceiveVideo: true,
+            offerToReceiveAudio: true
+        });
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForInboundMedia(localConnection,
+            (report) => report.kind === 'audio' && report.packetsReceived > 0
+        );
+
+        const stats = await localConnection.getStats();
+        const videoStats = [...stats.values()].find((report) =>
+            report.type === 'inbound-rtp' && report.kind === 'video'
+        );
+        expect(videoStats?.packetsReceived ?? 0).to.equal(0);
+
+        localConnection.close();
+    });
+
+    it("should play a VP8 IVF file into a video track", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .playMedia({ source: VP8_FIXTURE })
+            .thenClose();
+
+        const localConnection = new RTCPeerConnection();
+        const receivedTrack = new Promise<RTCTrackEvent>((resolve) =>
+            localConnection.addEventListener('track', resolve)
+        );
+
+        const localOffer = await localConnection.createOffer({ offerToReceiveVideo: true });
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const { track } = await receivedTrack;
+        expect(track.kind).to.equal('video');
+
+        const inboundStats = await waitForInboundMedia(localConnection,
+            (report) => report.kind === 'video' && report.framesDecoded > 0
+        );
+        // The fixture contains 30 single-packet frames, so we can't have received more than that:
+        expect(inboundStats.packetsReceived).to.be.lessThanOrEqual(30);
+        expect(inboundStats.framesDecoded).to.be.lessThanOrEqual(30);
+
+        localConnection.close();
+    });
+
+    it("should replay RTP from a pcap file with its original timing", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .playMedia({ source: RTP_FIXTURE })
+            .thenClose();
+
+        const localConnection = new RTCPeerConnection();
+        const localOffer = await localConnection.createOffer({ offerToReceiveAudio: true });
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForInboundMedia(localConnection,
+            (report) => report.kind === 'audio' && report.packetsReceived > 0
+        );
+        const firstPacketTime = Date.now();
+
+        const inboundStats = await waitForInboundMedia(localConnection,
+            (report) => report.kind === 'audio' && report.packetsReceived >= 45
+        );
+        expect(inboundStats.packetsReceived).to.be.lessThanOrEqual(50);
+
+        // The captured packets span ~1 second, so replaying them all immediately would be
+        // much faster than this (allowing for the 100ms stats polling interval):
+        expect(Date.now() - firstPacketTime).to.be.greaterThan(700);
+
+        localConnection.close();
+    });
+
+});
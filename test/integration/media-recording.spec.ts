@@ -0,0 +1,114 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MockRTCEventData } from '../../src/mockrtc';
+import {
+    MockRTC,
+    expect,
+    getDeferred,
+    waitForInboundMedia
+} from '../test-setup';
+
+// Relative to the admin server's working directory, i.e. the project root:
+const RECORDING_DIRECTORY = 'test/recordings';
+
+describe("Media recording", function () {
+
+    this.timeout(10000);
+
+    const mockRTC = MockRTC.getRemote({
+        recordMedia: { directory: RECORDING_DIRECTORY }
+    });
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should record received video to a playable IVF file", async () => {
+        const recordingEvent = getDeferred<MockRTCEventData['media-recording-completed']>();
+        await mockRTC.on('media-recording-completed', (event) => recordingEvent.resolve(event));
+
+        const recordingPeer = await mockRTC.buildPeer()
+            .waitForNextMedia()
+            .sleep(1000)
+            .thenClose();
+
+        const sendingConnection = new RTCPeerConnection();
+        const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+        stream.getTracks().forEach((track) => sendingConnection.addTrack(track, stream));
+
+        const sendingOffer = await sendingConnection.createOffer();
+        await sendingConnection.setLocalDescription(sendingOffer);
+        const { answer } = await recordingPeer.answerOffer(sendingOffer);
+        await sendingConnection.setRemoteDescription(answer);
+
+        const recording = await recordingEvent;
+        sendingConnection.close();
+
+        expect(recording.peerId).to.equal(recordingPeer.peerId);
+        expect(recording.trackMid).to.equal('0');
+        expect(recording.filePath).to.match(/\.ivf$/);
+        expect(recording.frameCount).to.be.greaterThan(0);
+
+        // Playback fails unless the file has a valid IVF header, so we check the recording by
+        // playing it back into a new connection:
+        const playbackPeer = await mockRTC.buildPeer()
+            .playMedia({ source: recording.filePath })
+            .thenEcho();
+
+        const receivingConnection = new RTCPeerConnection();
+        const receivingOffer = await receivingConnection.createOffer({ offerToReceiveVideo: true });
+        await receivingConnection.setLocalDescription(receivingOffer);
+        const { answer: playbackAnswer } = await playbackPeer.answerOffer(receivingOffer);
+        await receivingConnection.setRemoteDescription(playbackAnswer);
+
+        const inboundStats = await waitForInboundMedia(receivingConnection,
+            (report) => report.kind === 'video' && report.framesDecoded > 0
+        );
+        expect(inboundStats.framesDecoded).to.be.lessThanOrEqual(recording.frameCount);
+
+        receivingConnection.close();
+    });
+
+    it("should emit an event if a recording can't be written", async () => {
+        // A directory inside a file, which can never be created:
+        const failingMockRTC = MockRTC.getRemote({
+            recordMedia: { directory: 'package.json/recordings' }
+        });
+        await failingMockRTC.start();
+
+        try {
+            const failureEvent = getDeferred<MockRTCEventData['media-recording-failed']>();
+            await failingMockRTC.on('media-recording-failed', (event) => failureEvent.resolve(event));
+
+            const mockPeer = await failingMockRTC.buildPeer()
+                .waitForNextMedia()
+                .sleep(100)
+                .thenClose();
+
+            const localConnection = new RTCPeerConnection();
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            stream.getTracks().forEach((track) => localConnection.addTrack(track, stream));
+
+            const localOffer = await localConnection.createOffer();
+            await localConnection.setLocalDescription(localOffer);
+            const { answer } = await mockPeer.answerOffer(localOffer);
+            await localConnection.setRemoteDescription(answer);
+
+            const failure = await failureEvent;
+            expect(failure.peerId).to.equal(mockPeer.peerId);
+            expect(failure.trackMid).to.equal('0');
+            expect(failure.errorMessage).to.include('ENOTDIR');
+
+            localConnection.close();
+
+            // The admin server should still be running & usable afterwards:
+            const nextPeer = await failingMockRTC.buildPeer().thenClose();
+            expect(nextPeer.peerId).not.to.equal(undefined);
+        } finally {
+            await failingMockRTC.stop();
+        }
+    });
+
+});
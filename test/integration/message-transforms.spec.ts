@@ -0,0 +1,230 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MockRTCEventData } from '../../src/mockrtc';
+import {
+    MockRTC,
+    expect,
+    waitForChannelOpen,
+    waitForChannelClose
+} from '../test-setup';
+
+describe("When transforming proxied messages", () => {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should be able to modify and drop messages using rules", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+
+        remoteConn.addEventListener('datachannel', ({ channel }) => {
+            channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+            channel.send('{"user":{"name":"Alice","role":"user"}}');
+            channel.send('secret message');
+            channel.send('hello from remote');
+            setTimeout(() => channel.close(), 200);
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .transformMessages([
+                { type: 'set-json', path: 'user.role', value: 'admin' },
+                { type: 'drop', matching: /secret/ },
+                { type: 'replace', pattern: /hello/g, replacement: 'goodbye', direction: 'to-local' },
+                { type: 'replace', pattern: 'local', replacement: 'LOCAL', direction: 'to-remote' }
+            ])
+            .thenForwardTo(remoteConn);
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+        const locallyReceivedMessages: Array<string | Buffer> = [];
+        dataChannel.addEventListener('message', ({ data }) => locallyReceivedMessages.push(data));
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hello from local');
+
+        await waitForChannelClose(dataChannel);
+
+        expect(locallyReceivedMessages).to.deep.equal([
+            '{"user":{"name":"Alice","role":"admin"}}',
+            'goodbye from remote'
+        ]);
+
+        expect(remotelyReceivedMessages).to.deep.equal([
+            'hello from LOCAL'
+        ]);
+    });
+
+    it("should be able to modify messages using a callback", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+
+        remoteConn.addEventListener('datachannel', ({ channel }) => {
+            channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+            setTimeout(() => channel.close(), 200);
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .transformMessages((message, { direction, channelLabel }) => {
+                if (message === 'drop me') return null;
+                if (message === 'leave me') return undefined;
+                return `${direction} on ${channelLabel}: ${message}`;
+            })
+            .thenForwardTo(remoteConn);
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('drop me');
+        dataChannel.send('leave me');
+        dataChannel.send('change me');
+
+        await waitForChannelClose(dataChannel);
+
+        expect(remotelyReceivedMessages).to.deep.equal([
+            'leave me',
+            'to-remote on dataChannel: change me'
+        ]);
+    });
+
+    it("should drop messages and emit an event if a transform callback fails", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+
+        remoteConn.addEventListener('datachannel', ({ channel }) => {
+            channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+            setTimeout(() => channel.close(), 200);
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .transformMessages((message) => {
+                if (message === 'secret') throw new Error('Transform failed');
+                return message;
+            })
+            .thenForwardTo(remoteConn);
+
+        const failures: Array<MockRTCEventData['data-channel-message-transform-failed']> = [];
+        await mockRTC.on('data-channel-message-transform-failed', (event) => failures.push(event));
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('before');
+        dataChannel.send('secret');
+        dataChannel.send('after');
+
+        await waitForChannelClose(dataChannel);
+
+        expect(remotelyReceivedMessages).to.deep.equal(['before', 'after']);
+
+        expect(failures.length).to.equal(1);
+        expect(failures[0].peerId).to.equal(mockPeer.peerId);
+        expect(failures[0].channelLabel).to.equal('dataChannel');
+        expect(failures[0].direction).to.equal('to-remote');
+        expect(failures[0].content.toString()).to.equal('secret');
+        expect(failures[0].errorMessage).to.include('Transform failed');
+    });
+
+    it("should be able to hold messages at a breakpoint until they're released", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+
+        remoteConn.addEventListener('datachannel', ({ channel }) => {
+            channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+            setTimeout(() => channel.close(), 500);
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .breakOnMessages({ direction: 'to-remote', matching: /hold/ })
+            .thenForwardTo(remoteConn);
+
+        const heldMessages: Array<{ sessionId: string, messageId: string, content: Buffer }> = [];
+        await mockRTC.on('data-channel-message-held', async (event) => {
+            heldMessages.push(event);
+
+            const session = mockPeer.getSession(event.sessionId);
+            if (event.content.toString() === 'hold and edit') {
+                await session.resumeMessage(event.messageId, 'edited');
+            } else if (event.content.toString() === 'hold and drop') {
+                await session.dropMessage(event.messageId);
+            } else {
+                await session.resumeMessage(event.messageId);
+            }
+        });
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('hold and edit');
+        dataChannel.send('hold and drop');
+        dataChannel.send('hold and resume');
+        dataChannel.send('pass through');
+
+        await waitForChannelClose(dataChannel);
+
+        expect(heldMessages.map(({ content }) => content.toString())).to.deep.equal([
+            'hold and edit',
+            'hold and drop',
+            'hold and resume'
+        ]);
+
+        expect(remotelyReceivedMessages).to.deep.equal([
+            'edited',
+            'hold and resume',
+            'pass through'
+        ]);
+    });
+
+    it("should reject releasing messages that aren't held", async () => {
+        const remoteConn = new RTCPeerConnection();
+
+        const mockPeer = await mockRTC.buildPeer()
+            .breakOnMessages()
+            .thenForwardTo(remoteConn);
+
+        const localConn = new RTCPeerConnection();
+        localConn.createDataChannel("dataChannel");
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer, session } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        // Ids that match Object.prototype properties aren't held messages either:
+        for (const messageId of ['unknown-id', 'constructor', '__proto__']) {
+            const result = await session.resumeMessage(messageId).catch(e => e);
+            expect(result).to.be.instanceOf(Error);
+            expect(result.message).to.include(`No message with id ${messageId} is currently held`);
+        }
+
+        localConn.close();
+    });
+
+});
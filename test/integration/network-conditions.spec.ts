@@ -0,0 +1,165 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    waitForChannelOpen,
+    delay
+} from '../test-setup';
+
+async function measureEchoTime(dataChannel: RTCDataChannel) {
+    const startTime = Date.now();
+    const response = new Promise<void>((resolve) =>
+        dataChannel.addEventListener('message', () => resolve(), { once: true })
+    );
+    dataChannel.send('ping');
+    await response;
+    return Date.now() - startTime;
+}
+
+describe("Network conditions", function () {
+
+    this.timeout(5000);
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should be able to add latency to sent messages", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .withNetworkConditions({ latencyMs: 300 })
+            .thenEcho();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+
+        expect(await measureEchoTime(dataChannel)).to.be.greaterThanOrEqual(300);
+    });
+
+    it("should add latency to back-to-back messages concurrently", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .withNetworkConditions({ latencyMs: 200 })
+            .thenEcho();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+
+        const receivedMessages: string[] = [];
+        const allReceived = new Promise<void>((resolve) =>
+            dataChannel.addEventListener('message', ({ data }) => {
+                receivedMessages.push(data);
+                if (receivedMessages.length === 10) resolve();
+            })
+        );
+
+        const startTime = Date.now();
+        for (let i = 0; i < 10; i++) dataChannel.send(`message ${i}`);
+        await allReceived;
+        const elapsedTime = Date.now() - startTime;
+
+        // Each message is delayed by the latency, but they're all in flight together, so this takes
+        // about 200ms, not 10 x 200ms:
+        expect(elapsedTime).to.be.greaterThanOrEqual(200);
+        expect(elapsedTime).to.be.lessThan(600);
+        expect(receivedMessages).to.deep.equal([...Array(10).keys()].map((i) => `message ${i}`));
+    });
+
+    it("should delay lost data channel messages as if retransmitted, rather than dropping them", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .withNetworkConditions({ latencyMs: 100, lossRate: 1 })
+            .thenEcho();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+
+        const receivedMessages: string[] = [];
+        dataChannel.addEventListener('message', ({ data }) => receivedMessages.push(data));
+
+        // Latency plus a retransmission delay of twice the latency:
+        expect(await measureEchoTime(dataChannel)).to.be.greaterThanOrEqual(300);
+
+        dataChannel.send('second');
+        dataChannel.send('third');
+        await delay(1000);
+
+        expect(receivedMessages).to.deep.equal(['ping', 'second', 'third']);
+    });
+
+    it("should be able to limit bandwidth", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .withNetworkConditions({ kbps: 80 })
+            .thenEcho();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+
+        // Small messages are barely affected:
+        expect(await measureEchoTime(dataChannel)).to.be.lessThan(200);
+
+        // 5KB at 80kbps (10 bytes per ms) takes 500ms to transmit:
+        const response = new Promise<string>((resolve) =>
+            dataChannel.addEventListener('message', ({ data }) => resolve(data), { once: true })
+        );
+        const largeMessage = 'x'.repeat(5000);
+        const startTime = Date.now();
+        dataChannel.send(largeMessage);
+
+        expect(await response).to.equal(largeMessage);
+        expect(Date.now() - startTime).to.be.greaterThanOrEqual(500);
+    });
+
+    it("should be able to change network conditions mid-session", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .thenEcho();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer, session } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        expect(await measureEchoTime(dataChannel)).to.be.lessThan(200);
+
+        await session.setNetworkConditions({ latencyMs: 300 });
+        expect(await measureEchoTime(dataChannel)).to.be.greaterThanOrEqual(300);
+
+        await session.setNetworkConditions({});
+        expect(await measureEchoTime(dataChannel)).to.be.lessThan(200);
+    });
+
+});
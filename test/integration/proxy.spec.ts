@@ -110,6 +110,43 @@ describe("When proxying WebRTC traffic", () => {
         expect(localFrame!.displayWidth).to.be.greaterThanOrEqual(320);
     });
 
+    it("should renegotiate with a configured peer when new media is added mid-call", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remoteTracks: MediaStreamTrack[] = [];
+        remoteConn.addEventListener('track', ({ track }) => remoteTracks.push(track));
+
+        const mockPeer = await mockRTC.buildPeer()
+            .thenForwardTo(remoteConn);
+
+        // Connect with a single video track initially:
+        const localConn = new RTCPeerConnection();
+        const cameraStream = await navigator.mediaDevices.getUserMedia({ video: true });
+        localConn.addTrack(cameraStream.getTracks()[0], cameraStream);
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer, session } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForState(localConn, 'connected');
+        await delay(100);
+        expect(remoteTracks.length).to.equal(1);
+
+        // Add a second (e.g. screenshare) track, and renegotiate the existing session:
+        const screenStream = await navigator.mediaDevices.getUserMedia({ video: true });
+        localConn.addTrack(screenStream.getTracks()[0], screenStream);
+
+        const renegotiationOffer = await localConn.createOffer();
+        localConn.setLocalDescription(renegotiationOffer);
+        const renegotiationAnswer = await session.answerOffer(renegotiationOffer);
+        await localConn.setRemoteDescription(renegotiationAnswer);
+
+        // MockRTC should renegotiate with the remote peer to forward the new track too:
+        await delay(500);
+        expect(remoteTracks.length).to.equal(2);
+        expect(remoteTracks.map(t => t.kind)).to.deep.equal(['video', 'video']);
+    });
+
     it("should be able to transparently proxy messages to a dynamically provided peer, sending offer", async () => {
         const remoteConn = new RTCPeerConnection();
         const remotelyReceivedMessages: Array<string | Buffer> = [];
@@ -530,6 +567,47 @@ describe("When proxying WebRTC traffic", () => {
         expect(remoteFrame!.displayWidth).to.be.greaterThanOrEqual(320);
     });
 
+    it("should renegotiate with the remote peer via a hooked connection when the mock adds media", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForChannel()
+            .addTrack('video')
+            .thenPassThrough();
+
+        const remoteConn = new RTCPeerConnection();
+        const localConn = new RTCPeerConnection();
+        MockRTC.hookWebRTCConnection(localConn, mockPeer);
+
+        // Negotiate as usual whenever it's required, including when MockRTC needs to renegotiate:
+        const negotiate = async () => {
+            const localOffer = await localConn.createOffer(); // Hooked
+            await localConn.setLocalDescription(localOffer); // Hooked
+            await remoteConn.setRemoteDescription(localOffer);
+            const remoteAnswer = await remoteConn.createAnswer();
+            await remoteConn.setLocalDescription(remoteAnswer);
+            await localConn.setRemoteDescription(remoteAnswer); // Hooked
+        };
+
+        // Initially connect with only a data channel:
+        localConn.createDataChannel("dataChannel");
+        await negotiate();
+
+        const renegotiationNeeded = new Promise<void>((resolve) =>
+            localConn.addEventListener('negotiationneeded', () => resolve())
+        );
+
+        await waitForState(remoteConn, 'connected');
+        expect(remoteConn.getTransceivers().length).to.equal(0);
+
+        // MockRTC adds a track to the mock connection, and then must add it to the external connection
+        // when proxying, which can only be negotiated with the remote peer via the page:
+        await renegotiationNeeded;
+        await negotiate();
+
+        await delay(200);
+        expect(remoteConn.getTransceivers().map(({ receiver }) => receiver.track.kind)).to.deep.equal(['video']);
+        expect(localConn.getTransceivers().map(({ receiver }) => receiver.track.kind)).to.deep.equal(['video']);
+    });
+
     it("should include user-agent & URL metadata when creating a hooked offer", async () => {
         const eventPromise = getDeferred<MockRTCEventData['peer-connected']>();
         mockRTC.on('peer-connected', (peer) => eventPromise.resolve(peer));
@@ -595,4 +673,55 @@ describe("When proxying WebRTC traffic", () => {
         expect(connectEvent.metadata.sourceURL).to.equal(window.location.href);
     });
 
-});
\ No newline at end of file
+    it("should be able to inject messages into a live proxied session", async () => {
+        const remoteConn = new RTCPeerConnection();
+        const remotelyReceivedMessages: Array<string | Buffer> = [];
+        const remoteChannelPromise = new Promise<RTCDataChannel>((resolve) => {
+            remoteConn.addEventListener('datachannel', ({ channel }) => {
+                channel.addEventListener('message', ({ data }) => remotelyReceivedMessages.push(data));
+                resolve(channel);
+            });
+        });
+
+        const mockPeer = await mockRTC.buildPeer()
+            .thenForwardTo(remoteConn);
+
+        const localConn = new RTCPeerConnection();
+        const dataChannel = localConn.createDataChannel("dataChannel");
+        const locallyReceivedMessages: Array<string | Buffer> = [];
+        dataChannel.addEventListener('message', ({ data }) => locallyReceivedMessages.push(data));
+
+        const localOffer = await localConn.createOffer();
+        localConn.setLocalDescription(localOffer);
+        const { answer, session } = await mockPeer.answerOffer(localOffer);
+        await localConn.setRemoteDescription(answer);
+
+        await waitForChannelOpen(dataChannel);
+        await waitForChannelOpen(await remoteChannelPromise);
+
+        dataChannel.send('local message');
+        await delay(50);
+
+        await session.injectMessage({
+            direction: 'to-remote',
+            channel: 'dataChannel',
+            message: 'injected remote message'
+        });
+        await session.injectMessage({
+            direction: 'to-local',
+            channel: 'dataChannel',
+            message: 'injected local message'
+        });
+
+        await delay(50);
+
+        expect(remotelyReceivedMessages).to.deep.equal([
+            'local message',
+            'injected remote message'
+        ]);
+        expect(locallyReceivedMessages).to.deep.equal([
+            'injected local message'
+        ]);
+    });
+
+});
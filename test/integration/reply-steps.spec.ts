@@ -0,0 +1,145 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    delay,
+    waitForChannelOpen
+} from '../test-setup';
+
+describe("Reply steps", function () {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should reply to matching messages with a fixed response", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .thenReplyTo(/ping/, 'pong');
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('ping 1');
+        dataChannel.send('unmatched');
+        dataChannel.send('ping 2');
+
+        await delay(100);
+
+        expect(messages).to.deep.equal(['pong', 'pong']);
+    });
+
+    it("should reply using the first matching mapping, with templates and JSON patches", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .thenReply([
+                {
+                    pattern: { method: 'getUser' },
+                    response: { template: '{"id":{{json.id}},"result":{"name":"Alice"}}' }
+                },
+                {
+                    pattern: { method: 'echo' },
+                    response: { jsonPatch: [
+                        { op: 'move', from: '/params', path: '/result' },
+                        { op: 'remove', path: '/method' }
+                    ] }
+                },
+                {
+                    pattern: /.*/,
+                    response: { template: 'Unknown request: {{message}}' }
+                }
+            ]);
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        dataChannel.addEventListener('message', (event) => messages.push(event.data));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send(JSON.stringify({ id: 1, method: 'getUser' }));
+        await delay(20);
+        dataChannel.send(JSON.stringify({ id: 2, method: 'echo', params: ['a', 'b'] }));
+        await delay(20);
+        dataChannel.send('hello');
+
+        await delay(100);
+
+        expect(messages).to.deep.equal([
+            '{"id":1,"result":{"name":"Alice"}}',
+            '{"id":2,"result":["a","b"]}',
+            'Unknown request: hello'
+        ]);
+    });
+
+    it("should only reply on the specified channel", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .thenReply('rpc', [
+                { pattern: /.*/, response: Buffer.from('binary reply') }
+            ]);
+
+        const localConnection = new RTCPeerConnection();
+        const rpcChannel = localConnection.createDataChannel("rpc");
+        const otherChannel = localConnection.createDataChannel("other");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const messages: Array<string> = [];
+        rpcChannel.addEventListener('message', (event) =>
+            messages.push('rpc: ' + Buffer.from(event.data).toString('utf8'))
+        );
+        otherChannel.addEventListener('message', (event) => messages.push('other: ' + event.data));
+
+        await waitForChannelOpen(rpcChannel);
+        await waitForChannelOpen(otherChannel);
+        otherChannel.send('request');
+        rpcChannel.send('request');
+
+        await delay(100);
+
+        expect(messages).to.deep.equal(['rpc: binary reply']);
+    });
+
+    it("should fail the connection if a reply can't be built", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .thenReply([
+                { pattern: /.*/, response: { jsonPatch: [{ op: 'add', path: '/ok', value: true }] } }
+            ]);
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+
+        await waitForChannelOpen(dataChannel);
+        dataChannel.send('not JSON'); // Can't be patched
+
+        await closedPromise;
+    });
+
+});
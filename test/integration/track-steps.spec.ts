@@ -0,0 +1,71 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    delay
+} from '../test-setup';
+
+describe("Track steps", function () {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should be able to add a track mid-session", async () => {
+        const localConnection = new RTCPeerConnection();
+
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForChannel()
+            .addTrack('video', localConnection)
+            .thenEcho();
+
+        const receivedTrack = new Promise<RTCTrackEvent>((resolve) =>
+            localConnection.addEventListener('track', resolve)
+        );
+
+        localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const { track, transceiver } = await receivedTrack;
+        expect(track.kind).to.equal('video');
+        expect(transceiver.mid).to.equal('1');
+    });
+
+    it("should be able to remove a track mid-session", async () => {
+        const localConnection = new RTCPeerConnection();
+
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForChannel()
+            .addTrack('audio', localConnection)
+            .sleep(100)
+            .removeTrack('1', localConnection)
+            .thenEcho();
+
+        const receivedTrack = new Promise<RTCTrackEvent>((resolve) =>
+            localConnection.addEventListener('track', resolve)
+        );
+
+        localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+
+        const { track, transceiver } = await receivedTrack;
+        expect(track.kind).to.equal('audio');
+
+        await delay(500);
+        expect(transceiver.currentDirection).to.be.oneOf(['inactive', 'stopped']);
+    });
+
+});
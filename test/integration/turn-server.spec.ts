@@ -0,0 +1,91 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MockRTCEventData } from '../../src/mockrtc';
+import {
+    MockRTC,
+    expect,
+    getDeferred,
+    waitForState
+} from '../test-setup';
+
+describe("The embedded TURN server", function () {
+
+    const mockRTC = MockRTC.getRemote({ turnServer: true });
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should relay connections for peers that only allow relayed candidates", async () => {
+        const allocationEvent = getDeferred<MockRTCEventData['relay-allocated']>();
+        mockRTC.on('relay-allocated', (event) => allocationEvent.resolve(event));
+
+        const connectionEvent = getDeferred<MockRTCEventData['peer-connected']>();
+        mockRTC.on('peer-connected', (event) => connectionEvent.resolve(event));
+
+        const mockPeer = await mockRTC.buildPeer({
+            connectionOptions: { iceTransportPolicy: 'relay' }
+        }).waitForNextMessage().thenSend('Goodbye');
+
+        const iceServers = await mockPeer.getIceServers();
+        expect(iceServers.length).to.equal(1);
+        expect(iceServers[0].username).to.equal('mockrtc');
+
+        const localConnection = new RTCPeerConnection();
+        localConnection.createDataChannel("dataChannel");
+
+        const localOffer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(localOffer);
+
+        const { answer } = await mockPeer.answerOffer(localOffer);
+        await localConnection.setRemoteDescription(answer);
+        await waitForState(localConnection, 'connected');
+
+        const allocation = await allocationEvent;
+        expect(allocation.username).to.equal('mockrtc');
+        expect(allocation.relayPort).to.be.greaterThan(0);
+
+        const connection = await connectionEvent;
+        expect(connection.selectedLocalCandidate.type).to.equal('relay');
+        expect(connection.selectedLocalCandidate.port).to.equal(allocation.relayPort);
+    });
+
+    it("should allow matching relayed connections", async () => {
+        await mockRTC.forConnections()
+            .withSelectedCandidateType('relay')
+            .waitForChannel()
+            .thenSend('hello relay');
+
+        const matchingPeer = await mockRTC.getMatchingPeer();
+
+        const localConn = new RTCPeerConnection({
+            iceServers: await matchingPeer.getIceServers(),
+            iceTransportPolicy: 'relay'
+        });
+
+        const dataChannel = localConn.createDataChannel("dataChannel");
+
+        const messagePromise = new Promise((resolve) => {
+            dataChannel.addEventListener('message', ({ data }) => resolve(data));
+        });
+
+        await localConn.setLocalDescription(await localConn.createOffer());
+
+        // Wait for our relayed candidates, so the mock peer sees those in the offer:
+        await new Promise<void>((resolve) => {
+            localConn.addEventListener('icegatheringstatechange', () => {
+                if (localConn.iceGatheringState === 'complete') resolve();
+            });
+        });
+
+        const { answer } = await matchingPeer.answerOffer(localConn.localDescription!);
+        await localConn.setRemoteDescription(answer);
+
+        // Wait until the matching handler sends the configured message:
+        const receivedMessage = await messagePromise;
+        expect(receivedMessage).to.equal('hello relay');
+    });
+
+});
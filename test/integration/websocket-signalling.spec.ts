@@ -0,0 +1,117 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    getDeferred,
+    waitForState
+} from '../test-setup';
+
+// A minimal signalling client, much like those used by real apps:
+function connectViaSignalling(url: string, connection: RTCPeerConnection, options: { offer: boolean }) {
+    const socket = new WebSocket(url);
+    const send = (message: any) => socket.send(JSON.stringify(message));
+
+    connection.addEventListener('icecandidate', ({ candidate }) => {
+        send({ type: 'candidate', candidate: candidate?.toJSON() ?? null });
+    });
+
+    socket.addEventListener('message', async ({ data }) => {
+        const message = JSON.parse(data);
+        if (message.type === 'offer') {
+            await connection.setRemoteDescription(message);
+            await connection.setLocalDescription(await connection.createAnswer());
+            send({ type: 'answer', sdp: connection.localDescription!.sdp });
+        } else if (message.type === 'answer') {
+            await connection.setRemoteDescription(message);
+        } else if (message.type === 'candidate') {
+            await connection.addIceCandidate(message.candidate ?? undefined);
+        }
+    });
+
+    socket.addEventListener('open', async () => {
+        if (options.offer) {
+            await connection.setLocalDescription(await connection.createOffer());
+            send({ type: 'offer', sdp: connection.localDescription!.sdp });
+        } else {
+            send({ type: 'request-offer' });
+        }
+    });
+
+    return socket;
+}
+
+describe("WebSocket signalling", function () {
+
+    const mockRTC = MockRTC.getRemote();
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should answer offers sent to a peer's signalling URL", async () => {
+        const mockPeer = await mockRTC.buildPeer().waitForNextMessage().thenSend('Goodbye');
+        const signallingUrl = await mockPeer.getWebSocketSignallingUrl();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+
+        const socket = connectViaSignalling(signallingUrl, localConnection, { offer: true });
+        await waitForState(localConnection, 'connected');
+
+        const responsePromise = getDeferred<string>();
+        dataChannel.addEventListener('message', ({ data }) => responsePromise.resolve(data));
+        dataChannel.send('hello');
+        expect(await responsePromise).to.equal('Goodbye');
+
+        // Closing the signalling socket closes the session:
+        socket.close();
+        await waitForState(localConnection, 'disconnected');
+    });
+
+    it("should connect any room to the matching peer", async () => {
+        await mockRTC.forConnections()
+            .waitForChannel()
+            .thenSend('hello room');
+
+        const matchingPeer = mockRTC.getMatchingPeer();
+        const signallingUrl = (await matchingPeer.getWebSocketSignallingUrl())
+            .replace(/matching-peer$/, 'my-test-room');
+
+        const localConnection = new RTCPeerConnection();
+
+        // The mock peer creates the offer here, and we answer it:
+        connectViaSignalling(signallingUrl, localConnection, { offer: false });
+        await waitForState(localConnection, 'connected');
+
+        // The offer includes a data stream, so we can open a channel without renegotiating:
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+        const messagePromise = getDeferred<string>();
+        dataChannel.addEventListener('message', ({ data }) => messagePromise.resolve(data));
+
+        expect(await messagePromise).to.equal('hello room');
+    });
+
+    it("should connect rooms named like object properties to the matching peer", async () => {
+        await mockRTC.forConnections()
+            .waitForChannel()
+            .thenSend('hello constructor');
+
+        const matchingPeer = mockRTC.getMatchingPeer();
+        const signallingUrl = (await matchingPeer.getWebSocketSignallingUrl())
+            .replace(/matching-peer$/, 'constructor');
+
+        const localConnection = new RTCPeerConnection();
+        connectViaSignalling(signallingUrl, localConnection, { offer: false });
+        await waitForState(localConnection, 'connected');
+
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+        const messagePromise = getDeferred<string>();
+        dataChannel.addEventListener('message', ({ data }) => messagePromise.resolve(data));
+
+        expect(await messagePromise).to.equal('hello constructor');
+    });
+
+});
@@ -0,0 +1,137 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    MockRTC,
+    expect,
+    getDeferred,
+    waitForState
+} from '../test-setup';
+
+describe("WHIP & WHEP signalling", function () {
+
+    const mockRTC = MockRTC.getRemote({ recordMessages: true });
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should allow WHIP clients to connect, and then close the session", async () => {
+        const mockPeer = await mockRTC.buildPeer().waitForNextMessage().thenSend('Goodbye');
+        const whipUrl = await mockPeer.getWhipUrl();
+
+        const localConnection = new RTCPeerConnection();
+        const dataChannel = localConnection.createDataChannel("dataChannel");
+        const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+        localConnection.addTransceiver(stream.getTracks()[0], { direction: 'sendonly' });
+
+        await localConnection.setLocalDescription(await localConnection.createOffer());
+
+        const response = await fetch(whipUrl, {
+            method: 'POST',
+            headers: { 'content-type': 'application/sdp' },
+            body: localConnection.localDescription!.sdp
+        });
+
+        expect(response.status).to.equal(201);
+        expect(response.headers.get('content-type')).to.equal('application/sdp');
+        const sessionUrl = new URL(response.headers.get('location')!, whipUrl).toString();
+
+        await localConnection.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+        await waitForState(localConnection, 'connected');
+
+        const responsePromise = getDeferred<string>();
+        dataChannel.addEventListener('message', ({ data }) => responsePromise.resolve(data));
+        dataChannel.send('hello');
+        expect(await responsePromise).to.equal('Goodbye');
+        expect(await mockPeer.getAllMessages()).to.deep.equal(['hello']);
+
+        const deleteResponse = await fetch(sessionUrl, { method: 'DELETE' });
+        expect(deleteResponse.status).to.equal(200);
+
+        await waitForState(localConnection, 'disconnected');
+
+        const repeatedDeleteResponse = await fetch(sessionUrl, { method: 'DELETE' });
+        expect(repeatedDeleteResponse.status).to.equal(404);
+    });
+
+    it("should allow WHEP clients to connect & trickle ICE candidates", async () => {
+        const mockPeer = await mockRTC.buildPeer().waitForNextMessage().thenSend('Goodbye');
+        const whepUrl = await mockPeer.getWhepUrl();
+
+        const localConnection = new RTCPeerConnection();
+        localConnection.createDataChannel("dataChannel");
+        localConnection.addTransceiver('video', { direction: 'recvonly' });
+
+        const localCandidates: RTCIceCandidate[] = [];
+        localConnection.addEventListener('icecandidate', ({ candidate }) => {
+            if (candidate) localCandidates.push(candidate);
+        });
+
+        // We send the offer immediately, without waiting for ICE gathering:
+        const offer = await localConnection.createOffer();
+        await localConnection.setLocalDescription(offer);
+
+        const response = await fetch(whepUrl, {
+            method: 'POST',
+            headers: { 'content-type': 'application/sdp' },
+            body: offer.sdp
+        });
+        expect(response.status).to.equal(201);
+        const sessionUrl = new URL(response.headers.get('location')!, whepUrl).toString();
+
+        await localConnection.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+
+        await new Promise<void>((resolve) => {
+            if (localConnection.iceGatheringState === 'complete') resolve();
+            localConnection.addEventListener('icegatheringstatechange', () => {
+                if (localConnection.iceGatheringState === 'complete') resolve();
+            });
+        });
+
+        const patchResponse = await fetch(sessionUrl, {
+            method: 'PATCH',
+            headers: { 'content-type': 'application/trickle-ice-sdpfrag' },
+            body: [
+                'm=video 9 UDP/TLS/RTP/SAVPF 0',
+                ...localCandidates.flatMap((candidate) => [
+                    `a=mid:${candidate.sdpMid}`,
+                    `a=${candidate.candidate}`
+                ])
+            ].join('\r\n') + '\r\n'
+        });
+        expect(patchResponse.status).to.equal(204);
+
+        await waitForState(localConnection, 'connected');
+    });
+
+    it("should reject WHIP requests that don't contain SDP", async () => {
+        const mockPeer = await mockRTC.buildPeer().thenEcho();
+        const whipUrl = await mockPeer.getWhipUrl();
+
+        const response = await fetch(whipUrl, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: '{}'
+        });
+
+        expect(response.status).to.equal(415);
+    });
+
+    it("should return 404s for unknown peers & sessions named like object properties", async () => {
+        const mockPeer = await mockRTC.buildPeer().thenEcho();
+        const whipUrl = await mockPeer.getWhipUrl();
+
+        const peerResponse = await fetch(whipUrl.replace(mockPeer.peerId, 'toString'), {
+            method: 'POST',
+            headers: { 'content-type': 'application/sdp' },
+            body: ''
+        });
+        expect(peerResponse.status).to.equal(404);
+
+        const sessionResponse = await fetch(`${whipUrl}/constructor`, { method: 'DELETE' });
+        expect(sessionResponse.status).to.equal(404);
+    });
+
+});
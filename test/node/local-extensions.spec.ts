@@ -0,0 +1,78 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Tests for MockRTC running in-process in Node, where definitions are used directly, rather than
+// being serialized & deserialized via an admin server as in the browser integration tests.
+
+import { expect } from 'chai';
+import { RTCPeerConnection } from 'node-datachannel/polyfill';
+
+import * as MockRTC from '../../src/main';
+import { GreetingStep, SourcePathMatcher, testExtensions } from '../test-extensions';
+
+// Connects to the peer, sends a message once the channel opens, and resolves with all messages
+// received, once the channel is closed:
+async function sendAndReadMessages(
+    peer: MockRTC.MockRTCPeer,
+    message: string,
+    connectionMetadata?: MockRTC.ConnectionMetadata
+) {
+    const localConnection = new RTCPeerConnection();
+    const dataChannel = localConnection.createDataChannel("dataChannel");
+
+    const messages: Array<string> = [];
+    dataChannel.addEventListener('message', (event) => messages.push((event as MessageEvent).data));
+    dataChannel.addEventListener('open', () => dataChannel.send(message));
+    const closedPromise = new Promise((resolve) => dataChannel.addEventListener('close', resolve));
+
+    const localOffer = await localConnection.createOffer();
+    await localConnection.setLocalDescription(localOffer);
+    const { answer } = await peer.answerOffer(localOffer, { connectionMetadata });
+    await localConnection.setRemoteDescription(answer);
+
+    await closedPromise;
+    localConnection.close();
+    return messages;
+}
+
+describe("Local custom extensions", function () {
+
+    this.timeout(5000);
+
+    const mockRTC = MockRTC.getLocal({}, testExtensions);
+
+    beforeEach(() => mockRTC.start());
+    afterEach(() => mockRTC.stop());
+
+    it("should allow using custom steps within other steps", async () => {
+        const mockPeer = await mockRTC.buildPeer()
+            .waitForNextMessage()
+            .ifMessageMatches(/^hello/,
+                [new GreetingStep('nested step')]
+            )
+            .thenSend('done');
+
+        const messages = await sendAndReadMessages(mockPeer, 'hello world');
+        expect(messages).to.deep.equal(['Hello nested step', 'done']);
+    });
+
+    it("should allow using custom matchers within other matchers", async () => {
+        await mockRTC.forConnections()
+            .withNot(new SourcePathMatcher('/ignore-me'))
+            .waitForChannel()
+            .thenSend('matched');
+
+        await mockRTC.forConnections()
+            .waitForChannel()
+            .thenSend('not matched');
+
+        const matchingPeer = mockRTC.getMatchingPeer();
+
+        expect(await sendAndReadMessages(matchingPeer, 'hello', {
+            sourceURL: 'https://example.com/other-page'
+        })).to.deep.equal(['matched']);
+    });
+
+});
@@ -4,7 +4,9 @@
  */
 
 const mockrtc = require('../src/main');
-mockrtc.getAdminServer().start().then(() => {
+const { testExtensions } = require('./test-extensions');
+
+mockrtc.getAdminServer(testExtensions).start().then(() => {
     console.log("Test admin server started");
 }).catch((error: any) => {
     console.error(error);
@@ -0,0 +1,73 @@
+/*
+ * SPDX-FileCopyrightText: 2022 Tim Perry <tim@httptoolkit.tech>
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Custom steps & matchers, registered with the test admin server, to test MockRTC extensions.
+// The definitions are used by tests in the browser, and the implementations by the server.
+
+import { Serializable, HandlerStepDefinition } from '../src/handling/handler-step-definitions';
+import type { MatcherDefinition } from '../src/matching/matcher-definitions';
+import type { MockRTCConnection } from '../src/webrtc/mockrtc-connection';
+import type { RTCConnection } from '../src/webrtc/rtc-connection';
+
+export class GreetingStep extends Serializable implements HandlerStepDefinition {
+
+    readonly type = 'test-greeting';
+
+    constructor(
+        public readonly name: string
+    ) {
+        super();
+    }
+
+    explain() {
+        return `greet ${this.name}`;
+    }
+
+}
+
+export class GreetingStepImpl extends GreetingStep {
+
+    async handle({ channels }: MockRTCConnection): Promise<void> {
+        await Promise.all(channels.map((channel) =>
+            new Promise<void>((resolve, reject) => {
+                channel.write(`Hello ${this.name}`, (error: Error | null | undefined) => {
+                    if (error) reject(error);
+                    else resolve();
+                });
+            })
+        ));
+    }
+
+}
+
+export class SourcePathMatcher extends Serializable implements MatcherDefinition {
+
+    readonly type = 'test-source-path';
+
+    constructor(
+        public readonly path: string
+    ) {
+        super();
+    }
+
+    explain() {
+        return `from a page at ${this.path}`;
+    }
+
+}
+
+export class SourcePathMatcherImpl extends SourcePathMatcher {
+
+    matches(connection: RTCConnection): boolean {
+        const { sourceURL } = connection.metadata;
+        return !!sourceURL && new URL(sourceURL).pathname === this.path;
+    }
+
+}
+
+export const testExtensions = {
+    steps: { 'test-greeting': GreetingStepImpl },
+    matchers: { 'test-source-path': SourcePathMatcherImpl }
+};
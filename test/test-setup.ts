@@ -67,6 +67,21 @@ export async function waitForChannelClose(channel: RTCDataChannel) {
     });
 }
 
+// Poll the connection's stats until an inbound RTP stream matching the condition appears:
+export async function waitForInboundMedia(
+    connection: RTCPeerConnection,
+    condition: (report: any) => boolean
+): Promise<any> {
+    while (true) {
+        const stats = await connection.getStats();
+        for (const report of stats.values()) {
+            if (report.type === 'inbound-rtp' && condition(report)) return report;
+        }
+
+        await delay(100);
+    }
+}
+
 export function delay(durationMs: number) {
     return new Promise<void>((resolve) => {
         setTimeout(resolve, durationMs);